@@ -103,8 +103,10 @@ export const OncoprintSimple: React.FC<OncoprintProps> = ({
     }
 
     if (onCellClick) {
-      visualizer.on('cellClick', (data: { gene: string; sample: string; variant?: string }) => {
-        const mutation = data.variant ? { variantType: data.variant } as ProcessedMutation : undefined;
+      visualizer.on('cellClick', (data: { gene: string; sample: string; variant?: string; fusionPartner?: string; breakpoint?: string }) => {
+        const mutation = data.variant
+          ? { variantType: data.variant, fusionPartner: data.fusionPartner, breakpoint: data.breakpoint } as ProcessedMutation
+          : undefined;
         onCellClick(data.gene, data.sample, mutation);
       });
     }
@@ -274,8 +276,10 @@ export const Oncoprint = forwardRef<OncoprintRef, OncoprintProps>(({
     }
 
     if (onCellClick) {
-      visualizer.on('cellClick', (data: { gene: string; sample: string; variant?: string }) => {
-        const mutation = data.variant ? { variantType: data.variant } as ProcessedMutation : undefined;
+      visualizer.on('cellClick', (data: { gene: string; sample: string; variant?: string; fusionPartner?: string; breakpoint?: string }) => {
+        const mutation = data.variant
+          ? { variantType: data.variant, fusionPartner: data.fusionPartner, breakpoint: data.breakpoint } as ProcessedMutation
+          : undefined;
         onCellClick(data.gene, data.sample, mutation);
       });
     }
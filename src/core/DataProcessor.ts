@@ -5,15 +5,79 @@ import {
   ProcessedMutation, 
   ProcessedMetadata,
   CohortInfo,
-  SampleGroup
+  SampleGroup,
+  CnaType,
+  ProcessDataOptions,
+  ExpressionMatrix,
+  ExpressionConfig,
+  ExpressionAlteration,
+  GeneInteraction,
+  MutationStats,
+  ClinicalEnrichmentOptions,
+  ClinicalEnrichmentResult,
+  GroupEnrichment,
+  PairwiseEnrichment,
+  CohortComparisonOptions,
+  CohortComparison,
+  GeneCohortComparison,
+  GenePanelData,
+  TmbOptions,
+  SampleTmb,
+  GeneSelectionConfig,
+  GeneSet,
+  ClusteringOptions,
+  ClusterDistance,
+  ClusterNode,
+  ClusterResult
 } from '../types';
 import { MetadataParser } from '../parsers';
+import { Statistics } from '../utils';
+import {
+  VariantClassificationNormalizer,
+  NON_SYNONYMOUS_VARIANT_CLASSIFICATIONS
+} from './VariantClassificationNormalizer';
+import { ONCOGENIC_PATHWAYS } from './OncogenicPathways';
+
+// Cell scores for weighted clustering: truncating and high-level events count most; other classes score 0.5
+const ALTERATION_WEIGHTS: Record<string, number> = {
+  Nonsense_Mutation: 1,
+  Frame_Shift_Del: 1,
+  Frame_Shift_Ins: 1,
+  Splice_Site: 1,
+  Nonstop_Mutation: 1,
+  Translation_Start_Site: 1,
+  Multi_Hit: 1,
+  Fusion: 1,
+  AMP: 1,
+  HOMDEL: 1,
+  Missense_Mutation: 0.75,
+  In_Frame_Del: 0.75,
+  In_Frame_Ins: 0.75,
+  GAIN: 0.5,
+  HETLOSS: 0.5
+};
 
 export class DataProcessor {
-  static processData(maf: MafData[], metadata?: MetadataRow[], cohortInfo?: CohortInfo): ProcessedData {
-    // Extract unique genes and samples
-    const genes = Array.from(new Set(maf.map(row => row.Hugo_Symbol))).sort();
-    const mafSamples = Array.from(new Set(maf.map(row => row.Tumor_Sample_Barcode))).sort();
+  static processData(
+    maf: MafData[],
+    metadata?: MetadataRow[],
+    cohortInfo?: CohortInfo,
+    options: ProcessDataOptions = {}
+  ): ProcessedData {
+    // Bring SO terms and other vocabularies onto MAF classes so colours and legend entries line up
+    const normalized = VariantClassificationNormalizer.normalizeData(maf, options.classificationMap);
+    maf = normalized.data;
+    const copyNumber = options.copyNumber;
+
+    // Extract unique genes and samples from both alteration layers
+    const genes = Array.from(new Set([
+      ...maf.map(row => row.Hugo_Symbol),
+      ...(copyNumber ?? []).map(cna => cna.gene)
+    ])).sort();
+    const mafSamples = Array.from(new Set([
+      ...maf.map(row => row.Tumor_Sample_Barcode),
+      ...(copyNumber ?? []).map(cna => cna.sample)
+    ])).sort();
     
     // Determine sample list and percentage calculation base
     let samples: string[];
@@ -59,7 +123,13 @@ export class DataProcessor {
       proteinChange: row.Protein_Change,
       chromosome: row.Chromosome,
       startPosition: row.Start_Position,
-      endPosition: row.End_Position
+      endPosition: row.End_Position,
+      // Fusions from FusionParser carry their partner gene and breakpoint
+      ...(row.Fusion_Partner !== undefined && {
+        fusionName: row.Fusion_Name as string | undefined,
+        fusionPartner: String(row.Fusion_Partner),
+        breakpoint: row.Fusion_Breakpoint as string | undefined
+      })
     }));
 
     // Calculate gene mutation counts
@@ -104,11 +174,16 @@ export class DataProcessor {
       genes,
       samples,
       mutations,
+      copyNumber: copyNumber?.filter(cna => samples.includes(cna.sample)),
+      expression: options.expression && this.filterExpression(options.expression, genes, samples),
+      expressionSamples: options.expressionSamples?.filter(sample => samples.includes(sample)),
+      genePanels: options.genePanels,
       geneCounts,
       sampleCounts,
       metadata: processedMetadata,
       percentageCalculationBase,
-      cohortInfo: processedCohortInfo
+      cohortInfo: processedCohortInfo,
+      variantClassifications: normalized.report
       // sampleGroups will be added by DataProcessor.applySplitBy() if needed
     };
   }
@@ -126,6 +201,8 @@ export class DataProcessor {
       ...data,
       genes: filteredGenes,
       mutations: filteredMutations,
+      copyNumber: data.copyNumber?.filter(cna => genes.includes(cna.gene)),
+      expression: data.expression?.filter(e => genes.includes(e.gene)),
       geneCounts
     };
   }
@@ -153,21 +230,19 @@ export class DataProcessor {
       ...data,
       samples: filteredSamples,
       mutations: filteredMutations,
+      copyNumber: data.copyNumber?.filter(cna => samples.includes(cna.sample)),
+      expression: data.expression?.filter(e => samples.includes(e.sample)),
       sampleCounts,
       metadata: filteredMetadata
     };
   }
 
   static sortGenesByFrequency(data: ProcessedData, descending: boolean = true, maxGenes?: number): string[] {
-    // Calculate unique sample counts per gene (not total mutation counts)
+    // Calculate unique altered sample counts per gene (not total mutation counts)
+    const alteredSamples = this.getAlteredSamples(data);
     const geneFrequencies: Record<string, number> = {};
     data.genes.forEach(gene => {
-      const uniqueSamples = new Set(
-        data.mutations
-          .filter(m => m.gene === gene)
-          .map(m => m.sample)
-      );
-      geneFrequencies[gene] = uniqueSamples.size;
+      geneFrequencies[gene] = alteredSamples[gene]?.size || 0;
     });
 
     let sortedGenes = [...data.genes].sort((a, b) => {
@@ -184,6 +259,145 @@ export class DataProcessor {
     return sortedGenes;
   }
 
+  /**
+   * Genes that get a row, most altered first: the top N by altered samples
+   * among those over the minimum frequency, plus any `include` genes.
+   */
+  static selectGenes(data: ProcessedData, selection: GeneSelectionConfig = {}): string[] {
+    const exclude = new Set(selection.exclude ?? []);
+    const include = new Set((selection.include ?? []).filter(gene => data.genes.includes(gene) && !exclude.has(gene)));
+    const frequencies = this.calculateMutationFrequencies(data);
+    const minFraction = selection.minAlteredFraction ?? 0;
+    const topN = selection.topN ?? 25;
+
+    const ranked = this.sortGenesByFrequency(data, true);
+    const selected = new Set(
+      ranked
+        .filter(gene => !exclude.has(gene) && (frequencies[gene] || 0) >= minFraction)
+        .slice(0, topN > 0 ? topN : undefined)
+    );
+    include.forEach(gene => selected.add(gene));
+    return ranked.filter(gene => selected.has(gene));
+  }
+
+  /**
+   * Splits an ordered gene list into one block per gene set, keeping the list's
+   * order inside each block. Genes not in the list are dropped and empty
+   * blocks are skipped. With `overlap: 'first'` a gene only appears in the
+   * first set that lists it; `otherGenes` adds the rest as a final 'Other' block.
+   */
+  static groupGenesBySets(
+    genes: string[],
+    sets: GeneSet[],
+    options: { overlap?: 'duplicate' | 'first'; otherGenes?: boolean } = {}
+  ): GeneSet[] {
+    const claimed = new Set<string>();
+    const blocks: GeneSet[] = [];
+
+    sets.forEach(set => {
+      const members = new Set(set.genes);
+      const blockGenes = genes.filter(gene => members.has(gene) && (options.overlap !== 'first' || !claimed.has(gene)));
+      blockGenes.forEach(gene => claimed.add(gene));
+      if (blockGenes.length > 0) {
+        blocks.push({ ...set, genes: blockGenes });
+      }
+    });
+
+    if (options.otherGenes) {
+      const inSets = new Set(sets.flatMap(set => set.genes));
+      const rest = genes.filter(gene => !inSets.has(gene));
+      if (rest.length > 0) {
+        blocks.push({ name: 'Other', genes: rest });
+      }
+    }
+
+    return blocks;
+  }
+
+  /**
+   * Replaces gene rows with pathway rows: a sample is altered in a pathway when
+   * any member gene is. Mutations and copy-number calls are copied onto their
+   * pathway with the member gene kept in `pathwayGene`, so a gene in two
+   * pathways counts in both. Pathways listed in `expanded` keep their member
+   * genes as rows too. Expression outliers stay on those gene rows only.
+   */
+  static collapseToPathways(
+    data: ProcessedData,
+    pathways: GeneSet[] = ONCOGENIC_PATHWAYS,
+    options: { expanded?: string[] } = {}
+  ): ProcessedData {
+    const members: Record<string, string[]> = {};
+    pathways.forEach(pathway => {
+      const genes = pathway.genes.filter(gene => data.genes.includes(gene));
+      if (genes.length > 0) members[pathway.name] = genes;
+    });
+    const expandedGenes = new Set(
+      (options.expanded ?? []).filter(name => members[name]).flatMap(name => members[name])
+    );
+    const clash = Object.keys(members).find(name => expandedGenes.has(name));
+    if (clash) {
+      throw new Error(`Pathway name ${clash} is also the name of one of its genes`);
+    }
+
+    const mutations: ProcessedMutation[] = [
+      ...Object.entries(members).flatMap(([name, genes]) => data.mutations
+        .filter(m => genes.includes(m.gene))
+        .map(m => ({ ...m, gene: name, pathwayGene: m.gene }))),
+      ...data.mutations.filter(m => expandedGenes.has(m.gene))
+    ];
+    const copyNumber = data.copyNumber && [
+      ...Object.entries(members).flatMap(([name, genes]) => data.copyNumber!
+        .filter(cna => genes.includes(cna.gene))
+        .map(cna => ({ ...cna, gene: name, pathwayGene: cna.gene }))),
+      ...data.copyNumber.filter(cna => expandedGenes.has(cna.gene))
+    ];
+
+    // A sample is profiled for a pathway when its panel covers any member gene
+    const genePanels = data.genePanels && {
+      samplePanels: data.genePanels.samplePanels,
+      panels: Object.fromEntries(Object.entries(data.genePanels.panels).map(([id, panelGenes]) => [
+        id,
+        [...panelGenes, ...Object.keys(members).filter(name => members[name].some(gene => panelGenes.includes(gene)))]
+      ]))
+    };
+
+    const genes = [...Object.keys(members), ...data.genes.filter(gene => expandedGenes.has(gene))];
+    const geneCounts: Record<string, number> = {};
+    genes.forEach(gene => {
+      geneCounts[gene] = mutations.filter(m => m.gene === gene).length;
+    });
+
+    return {
+      ...data,
+      genes,
+      mutations,
+      copyNumber,
+      expression: data.expression?.filter(e => expandedGenes.has(e.gene)),
+      genePanels,
+      geneCounts,
+      pathways: members
+    };
+  }
+
+  /**
+   * Every mutation once, for per-sample and cohort counts. After
+   * collapseToPathways a mutation also sits on each pathway of its gene and,
+   * when the pathway is expanded, on the gene row; only one copy is kept.
+   */
+  static getDistinctMutations(data: ProcessedData): ProcessedMutation[] {
+    if (!data.pathways) return data.mutations;
+
+    const firstPathway: Record<string, string> = {};
+    Object.entries(data.pathways).forEach(([name, genes]) => {
+      genes.forEach(gene => {
+        if (!firstPathway[gene]) firstPathway[gene] = name;
+      });
+    });
+    // Expanded genes keep their own rows, so their pathway copies are the extras
+    return data.mutations.filter(m => m.pathwayGene === undefined ||
+      (!data.genes.includes(m.pathwayGene) && firstPathway[m.pathwayGene] === m.gene));
+  }
+
   static sortSamplesByMutationLoad(data: ProcessedData, descending: boolean = true): string[] {
     return [...data.samples].sort((a, b) => {
       const countA = data.sampleCounts[a] || 0;
@@ -192,19 +406,88 @@ export class DataProcessor {
     });
   }
 
+  // Highest TMB first; falls back to the plotted mutation count when TMB was not calculated
+  static sortSamplesByTmb(data: ProcessedData, descending: boolean = true): string[] {
+    if (!data.tmb) return this.sortSamplesByMutationLoad(data, descending);
+    return [...data.samples].sort((a, b) => {
+      const tmbA = data.tmb![a]?.tmb || 0;
+      const tmbB = data.tmb![b]?.tmb || 0;
+      return descending ? tmbB - tmbA : tmbA - tmbB;
+    });
+  }
+
+  /**
+   * Mutations per megabase for each sample. Counts every row of the MAF, not
+   * just the plotted genes; fusions are never counted. The capture size comes
+   * from `sampleCaptureSizes`, then the sample's gene panel, then `captureSize`.
+   */
+  static calculateTmb(
+    mafData: MafData[],
+    samples: string[],
+    options: TmbOptions = {},
+    genePanels?: GenePanelData,
+    classificationMap?: Record<string, string>
+  ): Record<string, SampleTmb> {
+    const nonSynonymous = new Set(NON_SYNONYMOUS_VARIANT_CLASSIFICATIONS);
+    const counts: Record<string, number> = Object.fromEntries(samples.map(sample => [sample, 0]));
+    mafData.forEach(row => {
+      if (counts[row.Tumor_Sample_Barcode] === undefined) return;
+      const variantClass = VariantClassificationNormalizer.classify(row, classificationMap);
+      if (variantClass === 'Fusion') return;
+      if (options.nonSynonymousOnly !== false && !nonSynonymous.has(variantClass)) return;
+      counts[row.Tumor_Sample_Barcode]++;
+    });
+
+    const captureSizeOf = (sample: string): number => {
+      const panel = genePanels?.samplePanels[sample];
+      return options.sampleCaptureSizes?.[sample] ??
+        (panel !== undefined ? options.panelCaptureSizes?.[panel] : undefined) ??
+        options.captureSize ?? 50;
+    };
+
+    const values = samples.map(sample => counts[sample] / captureSizeOf(sample)).sort((a, b) => a - b);
+    // Number of values <= tmb: binary search for the first value above it
+    const rankOf = (tmb: number): number => {
+      let low = 0;
+      let high = values.length;
+      while (low < high) {
+        const mid = (low + high) >>> 1;
+        if (values[mid] <= tmb) low = mid + 1;
+        else high = mid;
+      }
+      return low;
+    };
+
+    const result: Record<string, SampleTmb> = {};
+    samples.forEach(sample => {
+      const captureSize = captureSizeOf(sample);
+      const tmb = counts[sample] / captureSize;
+      const percentile = (100 * rankOf(tmb)) / values.length;
+      result[sample] = {
+        mutations: counts[sample],
+        captureSize,
+        tmb,
+        percentile,
+        high: options.highPercentile !== undefined
+          ? percentile >= options.highPercentile
+          : tmb >= (options.highThreshold ?? 10)
+      };
+    });
+    return result;
+  }
+
   static sortSamplesForOncoprint(data: ProcessedData, sortedGenes: string[]): string[] {
     // Iterative reordering algorithm for oncoprint clustering
     let orderedSamples = [...data.samples];
 
-    // Create mutation lookup for efficiency
+    // Create alteration lookup for efficiency
+    const alteredSamples = this.getAlteredSamples(data);
     const geneMutationInfo: Record<string, Record<string, boolean>> = {};
     sortedGenes.forEach(gene => {
       geneMutationInfo[gene] = {};
-      data.mutations
-        .filter(m => m.gene === gene)
-        .forEach(m => {
-          geneMutationInfo[gene][m.sample] = true;
-        });
+      alteredSamples[gene]?.forEach(sample => {
+        geneMutationInfo[gene][sample] = true;
+      });
     });
 
     // For each gene (in sorted order), reorder samples
@@ -227,6 +510,147 @@ export class DataProcessor {
     return orderedSamples;
   }
 
+  /**
+   * Gene → sample → score matrix for clustering: 1 where a sample has a
+   * mutation or copy-number alteration in the gene and 0 elsewhere, or with
+   * `weighted`, the weight of the cell's heaviest alteration.
+   */
+  static getAlterationScores(
+    data: ProcessedData,
+    genes: string[],
+    options: ClusteringOptions = {}
+  ): Record<string, Record<string, number>> {
+    const scores: Record<string, Record<string, number>> = {};
+    genes.forEach(gene => {
+      scores[gene] = Object.fromEntries(data.samples.map(sample => [sample, 0]));
+    });
+
+    const weights = { ...ALTERATION_WEIGHTS, ...options.variantWeights };
+    const score = (gene: string, sample: string, type: string) => {
+      if (!scores[gene] || scores[gene][sample] === undefined) return;
+      const weight = options.weighted ? weights[type] ?? 0.5 : 1;
+      scores[gene][sample] = Math.max(scores[gene][sample], weight);
+    };
+    data.mutations.forEach(m => score(m.gene, m.sample, m.variantType));
+    data.copyNumber?.forEach(cna => score(cna.gene, cna.sample, cna.type));
+    return scores;
+  }
+
+  // Samples clustered on their alteration scores across `genes`, plus any `metadataFields`
+  static clusterSamples(data: ProcessedData, genes: string[], options: ClusteringOptions = {}): ClusterResult {
+    const scores = this.getAlterationScores(data, genes, options);
+    const metadataFeatures = this.getMetadataFeatures(data, options.metadataFields ?? []);
+    const vectors = data.samples.map(sample => [
+      ...genes.map(gene => scores[gene][sample]),
+      ...metadataFeatures[sample]
+    ]);
+    return this.hierarchicalCluster(data.samples, vectors, options);
+  }
+
+  // Genes clustered on their alteration scores across all samples
+  static clusterGenes(data: ProcessedData, genes: string[], options: ClusteringOptions = {}): ClusterResult {
+    const scores = this.getAlterationScores(data, genes, options);
+    const vectors = genes.map(gene => data.samples.map(sample => scores[gene][sample]));
+    return this.hierarchicalCluster(genes, vectors, options);
+  }
+
+  /**
+   * Agglomerative hierarchical clustering by the nearest-neighbour chain
+   * algorithm, O(n²) in time and memory. Ward linkage runs on squared
+   * distances and reports heights on the original scale, like R's
+   * `hclust(method = 'ward.D2')`. At each merge the cluster with the higher
+   * mean score goes first, so altered samples end up on the left.
+   */
+  static hierarchicalCluster(
+    items: string[],
+    vectors: number[][],
+    options: Pick<ClusteringOptions, 'distance' | 'linkage'> = {}
+  ): ClusterResult {
+    const n = items.length;
+    if (n === 0) return { order: [], tree: null };
+
+    const linkage = options.linkage ?? 'average';
+    const distances = new Float64Array(n * n);
+    for (let i = 0; i < n; i++) {
+      for (let j = i + 1; j < n; j++) {
+        const distance = this.vectorDistance(vectors[i], vectors[j], options.distance ?? 'jaccard');
+        distances[i * n + j] = distances[j * n + i] = linkage === 'ward' ? distance * distance : distance;
+      }
+    }
+
+    // Each active slot holds one cluster; a merge keeps the lower slot and retires the other
+    const nodes: ClusterNode[] = items.map(item => ({ height: 0, item }));
+    const sizes = items.map(() => 1);
+    const totals = vectors.map(vector => vector.reduce((sum, value) => sum + value, 0));
+    const firstIndex = items.map((_, index) => index);
+    const active = items.map(() => true);
+    const chain: number[] = [];
+
+    for (let remaining = n; remaining > 1; remaining--) {
+      for (;;) {
+        if (chain.length === 0) chain.push(active.indexOf(true));
+        const a = chain[chain.length - 1];
+        const previous = chain.length > 1 ? chain[chain.length - 2] : -1;
+
+        // Nearest neighbour of the chain's end; ties go to the previous link so the chain terminates
+        let b = previous;
+        let best = previous >= 0 ? distances[a * n + previous] : Infinity;
+        for (let k = 0; k < n; k++) {
+          if (active[k] && k !== a && distances[a * n + k] < best) {
+            best = distances[a * n + k];
+            b = k;
+          }
+        }
+
+        if (b !== previous) {
+          chain.push(b);
+          continue;
+        }
+
+        chain.splice(-2);
+        const [keep, drop] = a < b ? [a, b] : [b, a];
+        for (let k = 0; k < n; k++) {
+          if (!active[k] || k === keep || k === drop) continue;
+          const dKeep = distances[k * n + keep];
+          const dDrop = distances[k * n + drop];
+          let merged: number;
+          if (linkage === 'complete') {
+            merged = Math.max(dKeep, dDrop);
+          } else if (linkage === 'ward') {
+            merged = ((sizes[keep] + sizes[k]) * dKeep + (sizes[drop] + sizes[k]) * dDrop - sizes[k] * best) /
+              (sizes[keep] + sizes[drop] + sizes[k]);
+          } else {
+            merged = (sizes[keep] * dKeep + sizes[drop] * dDrop) / (sizes[keep] + sizes[drop]);
+          }
+          distances[k * n + keep] = distances[keep * n + k] = merged;
+        }
+
+        const meanKeep = totals[keep] / sizes[keep];
+        const meanDrop = totals[drop] / sizes[drop];
+        const keepFirst = meanKeep > meanDrop || (meanKeep === meanDrop && firstIndex[keep] < firstIndex[drop]);
+        nodes[keep] = {
+          height: linkage === 'ward' ? Math.sqrt(Math.max(0, best)) : best,
+          children: keepFirst ? [nodes[keep], nodes[drop]] : [nodes[drop], nodes[keep]]
+        };
+        sizes[keep] += sizes[drop];
+        totals[keep] += totals[drop];
+        firstIndex[keep] = Math.min(firstIndex[keep], firstIndex[drop]);
+        active[drop] = false;
+        break;
+      }
+    }
+
+    const tree = nodes[active.indexOf(true)];
+    const order: string[] = [];
+    const stack = [tree];
+    while (stack.length > 0) {
+      const node = stack.pop()!;
+      if (node.children) stack.push(node.children[1], node.children[0]);
+      else order.push(node.item!);
+    }
+    return { order, tree };
+  }
+
   static sortSamplesByMetadata(
     data: ProcessedData, 
     field: string, 
@@ -297,7 +721,8 @@ export class DataProcessor {
             gene: mutations[0].gene,
             sample: mutations[0].sample,
             variantType: 'Multi_Hit',
-            proteinChange: `${mutations.length} mutations`
+            proteinChange: `${mutations.length} mutations`,
+            hits: mutations
           };
         }
       });
@@ -308,21 +733,196 @@ export class DataProcessor {
 
   static calculateMutationFrequencies(data: ProcessedData): Record<string, number> {
     const frequencies: Record<string, number> = {};
-    // Use the percentage calculation base (cohort-based or MAF-based)
-    const totalSamples = data.percentageCalculationBase;
+    // Each gene's denominator is the samples profiled for it (cohort-based or MAF-based)
+    const profiledSamples = this.getProfiledSampleCounts(data);
 
+    const alteredSamples = this.getAlteredSamples(data);
     data.genes.forEach(gene => {
-      const mutatedSamples = new Set(
-        data.mutations
-          .filter(m => m.gene === gene)
-          .map(m => m.sample)
-      );
-      frequencies[gene] = mutatedSamples.size / totalSamples;
+      const totalSamples = profiledSamples[gene];
+      // Calls outside a sample's panel aren't in the denominator, so leave them out here too
+      const altered = Array.from(alteredSamples[gene] ?? []).filter(sample => this.isProfiled(data, gene, sample));
+      frequencies[gene] = totalSamples > 0 ? altered.length / totalSamples : 0;
+    });
+
+    return frequencies;
+  }
+
+  /**
+   * Whether a gene was sequenced in a sample. Samples without a panel, or on a
+   * panel whose gene list wasn't loaded, count as profiled for every gene.
+   */
+  static isProfiled(data: ProcessedData, gene: string, sample: string): boolean {
+    const panelId = data.genePanels?.samplePanels[sample];
+    const panelGenes = panelId ? data.genePanels!.panels[panelId] : undefined;
+    return !panelGenes || panelGenes.includes(gene);
+  }
+
+  /**
+   * Samples profiled for each gene: the percentage calculation base less the
+   * samples whose panel doesn't cover the gene.
+   */
+  static getProfiledSampleCounts(data: ProcessedData): Record<string, number> {
+    const counts: Record<string, number> = {};
+    const notProfiled = this.getNotProfiledSamples(data, data.genes);
+    data.genes.forEach(gene => {
+      counts[gene] = data.percentageCalculationBase - notProfiled[gene].size;
+    });
+    return counts;
+  }
+
+  /**
+   * Samples profiled for at least one of the genes, e.g. the members of a
+   * gene set: the base less the samples whose panel covers none of them.
+   */
+  static getProfiledSampleCountForGenes(data: ProcessedData, genes: string[]): number {
+    const notProfiled = this.getNotProfiledSamples(data, genes);
+    const profiledForNone = data.samples.filter(sample => genes.every(gene => notProfiled[gene].has(sample)));
+    return data.percentageCalculationBase - (genes.length > 0 ? profiledForNone.length : 0);
+  }
+
+  /**
+   * Samples altered in each gene, counting a sample once whether it carries a
+   * mutation, a copy-number alteration or both.
+   */
+  static getAlteredSamples(data: ProcessedData): Record<string, Set<string>> {
+    const altered: Record<string, Set<string>> = {};
+    const add = (gene: string, sample: string) => {
+      if (!altered[gene]) altered[gene] = new Set();
+      altered[gene].add(sample);
+    };
+    data.mutations.forEach(m => add(m.gene, m.sample));
+    data.copyNumber?.forEach(cna => add(cna.gene, cna.sample));
+    return altered;
+  }
+
+  /**
+   * Altered samples per gene, split by what the oncoprint cell shows: the
+   * variant class, Multi_Hit when the sample has several classes, or the
+   * copy-number call when it has no mutation in the gene.
+   */
+  static getAlterationBreakdown(data: ProcessedData): Record<string, Record<string, number>> {
+    const classes: Record<string, Record<string, Set<string>>> = {};
+    data.mutations.forEach(m => {
+      if (!classes[m.gene]) classes[m.gene] = {};
+      if (!classes[m.gene][m.sample]) classes[m.gene][m.sample] = new Set();
+      classes[m.gene][m.sample].add(m.variantType);
+    });
+
+    const breakdown: Record<string, Record<string, number>> = {};
+    const add = (gene: string, category: string) => {
+      if (!breakdown[gene]) breakdown[gene] = {};
+      breakdown[gene][category] = (breakdown[gene][category] || 0) + 1;
+    };
+    Object.entries(classes).forEach(([gene, samples]) => {
+      Object.values(samples).forEach(variantTypes => {
+        add(gene, variantTypes.size > 1 ? 'Multi_Hit' : Array.from(variantTypes)[0]);
+      });
+    });
+    data.copyNumber?.forEach(cna => {
+      if (!classes[cna.gene]?.[cna.sample]) add(cna.gene, cna.type);
+    });
+    return breakdown;
+  }
+
+  static getCnaMatrix(data: ProcessedData): Record<string, Record<string, CnaType>> {
+    const matrix: Record<string, Record<string, CnaType>> = {};
+    data.copyNumber?.forEach(cna => {
+      if (!matrix[cna.gene]) matrix[cna.gene] = {};
+      matrix[cna.gene][cna.sample] = cna.type;
+    });
+    return matrix;
+  }
+
+  /**
+   * Z-scores each gene against the mean and standard deviation of the reference
+   * samples (all samples by default). Genes without spread in the reference
+   * group are left out, as no sample can be an outlier for them.
+   */
+  static calculateZScores(
+    matrix: ExpressionMatrix,
+    referenceSamples?: string[],
+    logTransform: boolean = false,
+    genes: string[] = matrix.genes
+  ): Record<string, Record<string, number>> {
+    const reference = referenceSamples && referenceSamples.length > 0 ? referenceSamples : matrix.samples;
+    const transform = (value: number) => (logTransform ? Math.log2(Math.max(value, 0) + 1) : value);
+    const zScores: Record<string, Record<string, number>> = {};
+
+    genes.forEach(gene => {
+      const values = matrix.values[gene];
+      if (!values) return;
+
+      const referenceValues = reference
+        .filter(sample => values[sample] !== undefined)
+        .map(sample => transform(values[sample]));
+      if (referenceValues.length < 2) return;
+
+      const mean = referenceValues.reduce((sum, value) => sum + value, 0) / referenceValues.length;
+      const variance = referenceValues.reduce((sum, value) => sum + (value - mean) ** 2, 0) / (referenceValues.length - 1);
+      const sd = Math.sqrt(variance);
+      if (sd === 0) return;
+
+      zScores[gene] = {};
+      Object.entries(values).forEach(([sample, value]) => {
+        zScores[gene][sample] = (transform(value) - mean) / sd;
+      });
+    });
+
+    return zScores;
+  }
+
+  static getExpressionOutliers(
+    matrix: ExpressionMatrix,
+    config: ExpressionConfig = {},
+    genes?: string[]
+  ): ExpressionAlteration[] {
+    const threshold = config.zScoreThreshold ?? 2;
+    const upThreshold = config.upThreshold ?? threshold;
+    const downThreshold = config.downThreshold ?? -threshold;
+    const zScores = this.calculateZScores(matrix, config.referenceSamples, config.logTransform, genes);
+
+    const outliers: ExpressionAlteration[] = [];
+    Object.entries(zScores).forEach(([gene, scores]) => {
+      Object.entries(scores).forEach(([sample, zScore]) => {
+        if (zScore >= upThreshold) {
+          outliers.push({ gene, sample, direction: 'UP', zScore });
+        } else if (zScore <= downThreshold) {
+          outliers.push({ gene, sample, direction: 'DOWN', zScore });
+        }
+      });
+    });
+    return outliers;
+  }
+
+  /**
+   * Share of samples with an expression outlier per gene, kept apart from
+   * mutation/CNA frequencies. Out of the samples with expression values when
+   * those are known, else out of the whole cohort.
+   */
+  static calculateExpressionFrequencies(data: ProcessedData): Record<string, number> {
+    const samplesByGene: Record<string, Set<string>> = {};
+    data.expression?.forEach(e => {
+      if (!samplesByGene[e.gene]) samplesByGene[e.gene] = new Set();
+      samplesByGene[e.gene].add(e.sample);
     });
 
+    const profiled = data.expressionSamples?.length ?? data.percentageCalculationBase;
+    const frequencies: Record<string, number> = {};
+    data.genes.forEach(gene => {
+      frequencies[gene] = profiled > 0 ? (samplesByGene[gene]?.size || 0) / profiled : 0;
+    });
     return frequencies;
   }
 
+  static getExpressionMatrix(data: ProcessedData): Record<string, Record<string, ExpressionAlteration>> {
+    const matrix: Record<string, Record<string, ExpressionAlteration>> = {};
+    data.expression?.forEach(e => {
+      if (!matrix[e.gene]) matrix[e.gene] = {};
+      matrix[e.gene][e.sample] = e;
+    });
+    return matrix;
+  }
+
   static getVariantTypes(data: ProcessedData): string[] {
     return Array.from(new Set(data.mutations.map(m => m.variantType))).sort();
   }
@@ -330,9 +930,10 @@ export class DataProcessor {
   static applySplitBy(
     data: ProcessedData, 
     splitField: string,
-    sortMethod: 'mutation_load' | 'alphabetical' | 'custom' | 'oncoprint' = 'oncoprint',
+    sortMethod: 'mutation_load' | 'alphabetical' | 'custom' | 'oncoprint' | 'tmb' | 'cluster' = 'oncoprint',
     customSampleOrder?: string[],
-    geneOrder?: string[]
+    geneOrder?: string[],
+    clustering?: ClusteringOptions
   ): ProcessedData {
     // Check if the split field exists in metadata
     if (!data.metadata.fields.includes(splitField)) {
@@ -367,7 +968,8 @@ export class DataProcessor {
         data, 
         sortMethod, 
         customSampleOrder,
-        geneOrder
+        geneOrder,
+        clustering
       );
       
       sampleGroups.push({
@@ -394,12 +996,90 @@ export class DataProcessor {
     };
   }
 
+  private static getNotProfiledSamples(data: ProcessedData, genes: string[]): Record<string, Set<string>> {
+    const panelGenes: Record<string, Set<string>> = {};
+    Object.entries(data.genePanels?.panels ?? {}).forEach(([id, panel]) => {
+      panelGenes[id] = new Set(panel);
+    });
+    const panelSamples = data.samples.filter(sample => {
+      const panelId = data.genePanels?.samplePanels[sample];
+      return panelId !== undefined && panelGenes[panelId] !== undefined;
+    });
+
+    const notProfiled: Record<string, Set<string>> = {};
+    genes.forEach(gene => {
+      notProfiled[gene] = new Set(panelSamples
+        .filter(sample => !panelGenes[data.genePanels!.samplePanels[sample]].has(gene)));
+    });
+    return notProfiled;
+  }
+
+  private static filterExpression(
+    expression: ExpressionAlteration[],
+    genes: string[],
+    samples: string[]
+  ): ExpressionAlteration[] {
+    const geneSet = new Set(genes);
+    const sampleSet = new Set(samples);
+    return expression.filter(e => geneSet.has(e.gene) && sampleSet.has(e.sample));
+  }
+
+  // 1 − Σmin/Σmax for Jaccard, which is the usual index on 0/1 vectors and its weighted form otherwise
+  private static vectorDistance(a: number[], b: number[], distance: ClusterDistance): number {
+    let sumMin = 0;
+    let sumMax = 0;
+    let sumAbs = 0;
+    let sumSquares = 0;
+    a.forEach((value, index) => {
+      const other = b[index];
+      sumMin += Math.min(value, other);
+      sumMax += Math.max(value, other);
+      sumAbs += Math.abs(value - other);
+      sumSquares += (value - other) ** 2;
+    });
+
+    switch (distance) {
+      case 'hamming':
+        return a.length > 0 ? sumAbs / a.length : 0;
+      case 'euclidean':
+        return Math.sqrt(sumSquares);
+      case 'jaccard':
+      default:
+        return sumMax > 0 ? 1 - sumMin / sumMax : 0;
+    }
+  }
+
+  // Sample → feature values for metadata fields: numbers min-max scaled, categories one-hot, missing as 0
+  private static getMetadataFeatures(data: ProcessedData, fields: string[]): Record<string, number[]> {
+    const features: Record<string, number[]> = Object.fromEntries(data.samples.map(sample => [sample, []]));
+    fields.forEach(field => {
+      const values = data.samples.map(sample => data.metadata.data[sample]?.[field]);
+      if (data.metadata.fieldTypes[field] === 'numerical') {
+        const numbers = values.map(value => (value === undefined || value === '' ? NaN : Number(value)));
+        const valid = numbers.filter(value => !isNaN(value));
+        const min = Math.min(...valid);
+        const span = Math.max(...valid) - min;
+        data.samples.forEach((sample, index) => {
+          const value = numbers[index];
+          features[sample].push(isNaN(value) || !(span > 0) ? 0 : (value - min) / span);
+        });
+      } else {
+        const categories = Array.from(new Set(values.filter(value => value !== undefined && value !== '').map(String))).sort();
+        data.samples.forEach((sample, index) => {
+          features[sample].push(...categories.map(category => (String(values[index]) === category ? 1 : 0)));
+        });
+      }
+    });
+    return features;
+  }
+
   private static sortSamplesWithinGroup(
     samples: string[], 
     data: ProcessedData,
-    sortMethod: 'mutation_load' | 'alphabetical' | 'custom' | 'oncoprint' = 'oncoprint',
+    sortMethod: 'mutation_load' | 'alphabetical' | 'custom' | 'oncoprint' | 'tmb' | 'cluster' = 'oncoprint',
     customSampleOrder?: string[],
-    geneOrder?: string[]
+    geneOrder?: string[],
+    clustering?: ClusteringOptions
   ): string[] {
     // Create a subset of data containing only the samples in this group
     const groupData: ProcessedData = {
@@ -421,8 +1101,12 @@ export class DataProcessor {
     switch (sortMethod) {
       case 'mutation_load':
         return this.sortSamplesByMutationLoad(groupData, true);
+      case 'tmb':
+        return this.sortSamplesByTmb(groupData, true);
       case 'alphabetical':
         return [...samples].sort();
+      case 'cluster':
+        return this.clusterSamples(groupData, geneOrder || this.selectGenes(groupData), clustering).order;
       case 'custom':
         if (customSampleOrder) {
           // Filter custom order to only include samples in this group, maintaining order
@@ -435,43 +1119,296 @@ export class DataProcessor {
       case 'oncoprint':
       default: {
         // Get the most frequently mutated genes for this group for clustering
-        const topGenes = geneOrder || this.sortGenesByFrequency(groupData, true, Math.min(25, data.genes.length));
+        const topGenes = geneOrder || this.selectGenes(groupData);
         // Apply oncoprint clustering within this group
         return this.sortSamplesForOncoprint(groupData, topGenes);
       }
     }
   }
 
+  // Samples altered in both genes; the diagonal holds each gene's altered sample count
   static getCoOccurrenceMatrix(data: ProcessedData): Record<string, Record<string, number>> {
     const matrix: Record<string, Record<string, number>> = {};
-    
-    // Initialize matrix
+    const alteredSamples = this.getAlteredSamples(data);
+
     data.genes.forEach(gene1 => {
       matrix[gene1] = {};
+      const samples1 = alteredSamples[gene1] ?? new Set<string>();
       data.genes.forEach(gene2 => {
-        matrix[gene1][gene2] = 0;
+        const samples2 = alteredSamples[gene2] ?? new Set<string>();
+        matrix[gene1][gene2] = Array.from(samples1).filter(sample => samples2.has(sample)).length;
       });
     });
 
-    // Calculate co-occurrences
+    return matrix;
+  }
+
+  /**
+   * Pairwise Fisher's exact tests on whether samples are altered (mutated or
+   * copy-number altered) in each gene. Each pair is tested one-sided in the
+   * direction of its cross-product ratio, over the samples profiled for both genes,
+   * and q-values are Benjamini–Hochberg adjusted across all pairs. Sorted by p-value.
+   * The log odds ratio adds 0.5 to every cell (Haldane correction), so pairs
+   * with an empty cell still get a finite value.
+   */
+  static calculateGeneInteractions(data: ProcessedData, genes: string[] = data.genes): GeneInteraction[] {
+    const alteredSamples = this.getAlteredSamples(data);
+    const notProfiled = this.getNotProfiledSamples(data, genes);
+
+    const interactions: GeneInteraction[] = [];
+    for (let i = 0; i < genes.length; i++) {
+      for (let j = i + 1; j < genes.length; j++) {
+        const gene1 = genes[i];
+        const gene2 = genes[j];
+        const excluded = new Set([...notProfiled[gene1], ...notProfiled[gene2]]);
+        const samples1 = Array.from(alteredSamples[gene1] ?? []).filter(sample => !excluded.has(sample));
+        const samples2 = new Set(Array.from(alteredSamples[gene2] ?? []).filter(sample => !excluded.has(sample)));
+
+        const both = samples1.filter(sample => samples2.has(sample)).length;
+        const gene1Only = samples1.length - both;
+        const gene2Only = samples2.size - both;
+        const neither = Math.max(0, data.percentageCalculationBase - excluded.size - both - gene1Only - gene2Only);
+
+        const fisher = Statistics.fisherExact(both, gene1Only, gene2Only, neither);
+        const coOccurring = both * neither > gene1Only * gene2Only;
+        interactions.push({
+          gene1,
+          gene2,
+          tendency: coOccurring ? 'co-occurrence' : 'mutual-exclusivity',
+          pValue: coOccurring ? fisher.pGreater : fisher.pLess,
+          qValue: 1,
+          logOddsRatio: Math.log(((both + 0.5) * (neither + 0.5)) / ((gene1Only + 0.5) * (gene2Only + 0.5))),
+          counts: { both, gene1Only, gene2Only, neither }
+        });
+      }
+    }
+
+    const qValues = Statistics.adjustBenjaminiHochberg(interactions.map(interaction => interaction.pValue));
+    interactions.forEach((interaction, index) => {
+      interaction.qValue = qValues[index];
+    });
+
+    return interactions.sort((a, b) => a.pValue - b.pValue);
+  }
+
+  /**
+   * Tests each gene's alteration status against the groups of a categorical
+   * metadata field (maftools `clinicalEnrichment`): every group against the
+   * rest, and every pair of groups, with two-sided Fisher's exact tests.
+   * Samples without a value for the field, or not profiled for a gene, are left out.
+   */
+  static calculateClinicalEnrichment(
+    data: ProcessedData,
+    field: string,
+    options: ClinicalEnrichmentOptions = {}
+  ): ClinicalEnrichmentResult {
+    if (data.metadata.fieldTypes[field] !== 'categorical') {
+      throw new Error(`Metadata field "${field}" is not a categorical field`);
+    }
+
+    const sampleGroups: Record<string, string[]> = {};
     data.samples.forEach(sample => {
-      const sampleMutations = data.mutations
-        .filter(m => m.sample === sample)
-        .map(m => m.gene);
-      
-      // Count co-occurrences for this sample
-      for (let i = 0; i < sampleMutations.length; i++) {
-        for (let j = i; j < sampleMutations.length; j++) {
-          const gene1 = sampleMutations[i];
-          const gene2 = sampleMutations[j];
-          matrix[gene1][gene2]++;
-          if (gene1 !== gene2) {
-            matrix[gene2][gene1]++;
-          }
+      const value = data.metadata.data[sample]?.[field];
+      if (value === undefined || value === null || value === '' || value === 'NA') return;
+      const group = String(value);
+      if (!sampleGroups[group]) sampleGroups[group] = [];
+      sampleGroups[group].push(sample);
+    });
+
+    const groupNames = Object.keys(sampleGroups).sort();
+    if (groupNames.length < 2) {
+      throw new Error(`Metadata field "${field}" needs at least two groups for enrichment analysis`);
+    }
+
+    const minAltered = options.minAlteredSamples ?? 5;
+    const alteredSamples = this.getAlteredSamples(data);
+    const genes = (options.genes ?? data.genes).filter(gene => (alteredSamples[gene]?.size || 0) >= minAltered);
+    const notProfiled = this.getNotProfiledSamples(data, genes);
+
+    const frequencies: ClinicalEnrichmentResult['frequencies'] = {};
+    const groupwise: GroupEnrichment[] = [];
+    const pairwise: PairwiseEnrichment[] = [];
+
+    genes.forEach(gene => {
+      const counts: Record<string, { altered: number; size: number }> = {};
+      groupNames.forEach(group => {
+        const profiled = sampleGroups[group].filter(sample => !notProfiled[gene].has(sample));
+        counts[group] = {
+          altered: profiled.filter(sample => alteredSamples[gene]?.has(sample)).length,
+          size: profiled.length
+        };
+      });
+      const frequency = (group: string) => (counts[group].size > 0 ? counts[group].altered / counts[group].size : 0);
+
+      frequencies[gene] = {};
+      groupNames.forEach(group => {
+        frequencies[gene][group] = frequency(group);
+      });
+
+      const totalAltered = groupNames.reduce((sum, group) => sum + counts[group].altered, 0);
+      const totalSize = groupNames.reduce((sum, group) => sum + counts[group].size, 0);
+
+      groupNames.forEach(group => {
+        const { altered, size } = counts[group];
+        const restAltered = totalAltered - altered;
+        const restSize = totalSize - size;
+        const fisher = Statistics.fisherExact(altered, size - altered, restAltered, restSize - restAltered);
+        groupwise.push({
+          gene,
+          group,
+          groupAltered: altered,
+          groupSize: size,
+          restAltered,
+          restSize,
+          groupFrequency: frequency(group),
+          restFrequency: restSize > 0 ? restAltered / restSize : 0,
+          oddsRatio: fisher.oddsRatio,
+          pValue: fisher.pTwoSided,
+          qValue: 1
+        });
+      });
+
+      for (let i = 0; i < groupNames.length; i++) {
+        for (let j = i + 1; j < groupNames.length; j++) {
+          const group1 = counts[groupNames[i]];
+          const group2 = counts[groupNames[j]];
+          const fisher = Statistics.fisherExact(
+            group1.altered, group1.size - group1.altered,
+            group2.altered, group2.size - group2.altered
+          );
+          pairwise.push({
+            gene,
+            group1: groupNames[i],
+            group2: groupNames[j],
+            group1Frequency: frequency(groupNames[i]),
+            group2Frequency: frequency(groupNames[j]),
+            oddsRatio: fisher.oddsRatio,
+            pValue: fisher.pTwoSided,
+            qValue: 1
+          });
         }
       }
     });
 
-    return matrix;
+    [groupwise, pairwise].forEach((results: Array<{ pValue: number; qValue: number }>) => {
+      const qValues = Statistics.adjustBenjaminiHochberg(results.map(result => result.pValue));
+      results.forEach((result, index) => {
+        result.qValue = qValues[index];
+      });
+      results.sort((a, b) => a.pValue - b.pValue);
+    });
+
+    const groups: Record<string, number> = {};
+    groupNames.forEach(group => {
+      groups[group] = sampleGroups[group].length;
+    });
+
+    return { field, groups, frequencies, groupwise, pairwise };
+  }
+
+  /**
+   * Compares each gene's alteration frequency between two cohorts (maftools
+   * `mafCompare`) with two-sided Fisher's exact tests. Cohort sizes are the
+   * samples profiled for the gene in each cohort.
+   */
+  static compareCohorts(
+    data1: ProcessedData,
+    data2: ProcessedData,
+    options: CohortComparisonOptions = {}
+  ): CohortComparison {
+    const [name1, name2] = options.names ?? ['Cohort 1', 'Cohort 2'];
+    const altered1 = this.getAlteredSamples(data1);
+    const altered2 = this.getAlteredSamples(data2);
+    const minAltered = options.minAlteredSamples ?? 5;
+
+    const candidates = options.genes ?? Array.from(new Set([...data1.genes, ...data2.genes])).sort();
+    const genes = candidates.filter(gene =>
+      Math.max(altered1[gene]?.size || 0, altered2[gene]?.size || 0) >= minAltered
+    );
+    const notProfiled1 = this.getNotProfiledSamples(data1, genes);
+    const notProfiled2 = this.getNotProfiledSamples(data2, genes);
+
+    const results: GeneCohortComparison[] = genes.map(gene => {
+      // Calls off a sample's panel aren't in the cohort size, so they can't count as altered either
+      const cohort1Altered = Array.from(altered1[gene] ?? []).filter(sample => !notProfiled1[gene].has(sample)).length;
+      const cohort2Altered = Array.from(altered2[gene] ?? []).filter(sample => !notProfiled2[gene].has(sample)).length;
+      const cohort1Size = data1.percentageCalculationBase - notProfiled1[gene].size;
+      const cohort2Size = data2.percentageCalculationBase - notProfiled2[gene].size;
+      const table: [number, number, number, number] = [
+        cohort1Altered, cohort1Size - cohort1Altered,
+        cohort2Altered, cohort2Size - cohort2Altered
+      ];
+      const oddsRatio = Statistics.fisherOddsRatio(...table, options.confidenceLevel);
+
+      return {
+        gene,
+        cohort1Altered,
+        cohort1Size,
+        cohort2Altered,
+        cohort2Size,
+        cohort1Frequency: cohort1Size > 0 ? cohort1Altered / cohort1Size : 0,
+        cohort2Frequency: cohort2Size > 0 ? cohort2Altered / cohort2Size : 0,
+        oddsRatio: oddsRatio.estimate,
+        ciLower: oddsRatio.lower,
+        ciUpper: oddsRatio.upper,
+        pValue: Statistics.fisherExact(...table).pTwoSided,
+        qValue: 1
+      };
+    });
+
+    const qValues = Statistics.adjustBenjaminiHochberg(results.map(result => result.pValue));
+    results.forEach((result, index) => {
+      result.qValue = qValues[index];
+    });
+
+    return {
+      cohort1: { name: name1, samples: data1.percentageCalculationBase },
+      cohort2: { name: name2, samples: data2.percentageCalculationBase },
+      genes: results.sort((a, b) => a.pValue - b.pValue)
+    };
+  }
+
+  /**
+   * Splits the data on a metadata field with exactly two values (e.g. primary
+   * vs relapse), each part using its own sample count for percentages.
+   */
+  static splitByMetadata(data: ProcessedData, field: string): Array<{ name: string; data: ProcessedData }> {
+    const groups: Record<string, string[]> = {};
+    data.samples.forEach(sample => {
+      const value = data.metadata.data[sample]?.[field];
+      if (value === undefined || value === null || value === '' || value === 'NA') return;
+      const group = String(value);
+      if (!groups[group]) groups[group] = [];
+      groups[group].push(sample);
+    });
+
+    const names = Object.keys(groups).sort();
+    if (names.length !== 2) {
+      throw new Error(`Metadata field "${field}" must have exactly two values to compare cohorts, found ${names.length}`);
+    }
+
+    return names.map(name => ({
+      name,
+      data: {
+        ...this.filterBySamples(data, groups[name]),
+        percentageCalculationBase: groups[name].length,
+        cohortInfo: undefined,
+        sampleGroups: undefined
+      }
+    }));
+  }
+
+  static calculateMutationStats(data: ProcessedData, genes: string[] = data.genes): MutationStats {
+    const coOccurrence = this.getCoOccurrenceMatrix(data);
+    const alteredSamples = this.getAlteredSamples(data);
+    const mutatedSamples = new Set(genes.flatMap(gene => Array.from(alteredSamples[gene] ?? []))).size;
+
+    return {
+      totalMutations: data.mutations.filter(m => genes.includes(m.gene)).length,
+      mutatedSamples,
+      mutationRate: data.percentageCalculationBase > 0 ? mutatedSamples / data.percentageCalculationBase : 0,
+      coOccurrenceMatrix: genes.map(gene1 => genes.map(gene2 => coOccurrence[gene1]?.[gene2] ?? 0)),
+      mutualExclusivity: this.calculateGeneInteractions(data, genes)
+    };
   }
-}
\ No newline at end of file
+}
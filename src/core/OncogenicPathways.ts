@@ -0,0 +1,80 @@
+import { GeneSet } from '../types';
+
+// The ten canonical oncogenic signalling pathways of the TCGA PanCanAtlas (Sanchez-Vega et al., Cell 2018).
+// Names differ from gene symbols so an expanded pathway's row and its genes' rows stay apart.
+export const ONCOGENIC_PATHWAYS: GeneSet[] = [
+  {
+    name: 'Cell cycle',
+    description: 'Cell cycle control',
+    genes: [
+      'CDKN1A', 'CDKN1B', 'CDKN2A', 'CDKN2B', 'CDKN2C', 'CCND1', 'CCND2', 'CCND3', 'CCNE1', 'CDK2',
+      'CDK4', 'CDK6', 'RB1', 'E2F1', 'E2F3'
+    ]
+  },
+  {
+    name: 'Hippo',
+    description: 'Hippo signalling',
+    genes: [
+      'STK4', 'STK3', 'SAV1', 'LATS1', 'LATS2', 'MOB1A', 'MOB1B', 'NF2', 'YAP1', 'WWTR1', 'TEAD1',
+      'TEAD2', 'TEAD3', 'TEAD4', 'VGLL4', 'FAT1', 'FAT2', 'FAT3', 'FAT4', 'DCHS1', 'DCHS2', 'CSNK1D',
+      'CSNK1E', 'PTPN14', 'WWC1', 'TAOK1', 'TAOK2', 'TAOK3', 'AJUBA', 'CRB1', 'CRB2', 'CRB3',
+      'LLGL1', 'LLGL2', 'SCRIB'
+    ]
+  },
+  {
+    name: 'MYC pathway',
+    description: 'MYC signalling',
+    genes: ['MAX', 'MGA', 'MLX', 'MLXIP', 'MLXIPL', 'MNT', 'MXD1', 'MXD3', 'MXD4', 'MXI1', 'MYC', 'MYCL', 'MYCN']
+  },
+  {
+    name: 'Notch',
+    description: 'Notch signalling',
+    genes: [
+      'NOTCH1', 'NOTCH2', 'NOTCH3', 'NOTCH4', 'JAG1', 'JAG2', 'DLL1', 'DLL3', 'DLL4', 'FBXW7', 'NUMB',
+      'NUMBL', 'RBPJ', 'MAML3', 'HES1', 'HEY1', 'CREBBP', 'EP300', 'SPEN', 'NCOR2', 'KAT2B', 'PSEN2', 'LFNG'
+    ]
+  },
+  {
+    name: 'NRF2',
+    description: 'Oxidative stress response',
+    genes: ['KEAP1', 'CUL3', 'NFE2L2']
+  },
+  {
+    name: 'PI3K',
+    description: 'PI3K/AKT/mTOR signalling',
+    genes: [
+      'PIK3CA', 'PIK3CB', 'PIK3R1', 'PIK3R2', 'PIK3R3', 'PTEN', 'INPP4B', 'AKT1', 'AKT2', 'AKT3', 'MTOR',
+      'RICTOR', 'RPTOR', 'TSC1', 'TSC2', 'STK11', 'RHEB', 'PPP2R1A'
+    ]
+  },
+  {
+    name: 'RTK-RAS',
+    description: 'Receptor tyrosine kinase and RAS/MAPK signalling',
+    genes: [
+      'EGFR', 'ERBB2', 'ERBB3', 'ERBB4', 'PDGFRA', 'PDGFRB', 'MET', 'FGFR1', 'FGFR2', 'FGFR3', 'FGFR4',
+      'KIT', 'IGF1R', 'RET', 'ROS1', 'ALK', 'FLT3', 'NTRK1', 'NTRK2', 'NTRK3', 'JAK2', 'CBL', 'ERRFI1',
+      'ABL1', 'SOS1', 'NF1', 'RASA1', 'PTPN11', 'KRAS', 'HRAS', 'NRAS', 'RIT1', 'ARAF', 'BRAF', 'RAF1',
+      'RAC1', 'MAP2K1', 'MAP2K2', 'MAPK1'
+    ]
+  },
+  {
+    name: 'TGF-β',
+    description: 'TGF-β signalling',
+    genes: ['TGFBR1', 'TGFBR2', 'ACVR1B', 'ACVR2A', 'SMAD2', 'SMAD3', 'SMAD4']
+  },
+  {
+    name: 'TP53 pathway',
+    description: 'p53 signalling',
+    genes: ['TP53', 'MDM2', 'MDM4', 'CDKN2A', 'ATM', 'CHEK2', 'RPS6KA3']
+  },
+  {
+    name: 'Wnt',
+    description: 'Wnt/β-catenin signalling',
+    genes: [
+      'APC', 'CTNNB1', 'AXIN1', 'AXIN2', 'AMER1', 'GSK3B', 'RNF43', 'ZNRF3', 'TCF7', 'TCF7L1', 'TCF7L2',
+      'LEF1', 'LRP5', 'LRP6', 'SFRP1', 'SFRP2', 'SFRP4', 'SFRP5', 'DKK1', 'DKK2', 'DKK3', 'DKK4', 'WIF1',
+      'TLE1', 'TLE2', 'TLE3', 'TLE4', 'FZD1', 'FZD2', 'FZD3', 'FZD4', 'FZD5', 'FZD6', 'FZD7', 'FZD8',
+      'FZD9', 'FZD10'
+    ]
+  }
+];
@@ -5,11 +5,40 @@ import {
   OncoprintConfig,
   ValidationResult,
   MetadataTrackConfig,
-  CohortInfo
+  CohortInfo,
+  MafParseOptions,
+  CopyNumberAlteration,
+  CnaParseOptions,
+  ExpressionMatrix,
+  ExpressionAlteration,
+  GenePanelData,
+  GeneInteraction,
+  SomaticInteractionsConfig,
+  ClinicalEnrichmentOptions,
+  ClinicalEnrichmentResult,
+  SurvivalOptions,
+  SurvivalComparison,
+  SurvivalPlotConfig,
+  CohortComparisonOptions,
+  CohortComparison,
+  ForestPlotConfig,
+  CoOncoprintConfig,
+  SampleTmb
 } from '../types';
-import { MafParser, MetadataParser } from '../parsers';
+import { MafParser, MetadataParser, CnaParser, ExpressionParser, GenePanelParser, NOT_PROFILED_PANEL } from '../parsers';
 import { DataProcessor } from './DataProcessor';
-import { OncoprintRenderer } from '../renderers';
+import { SurvivalAnalysis } from './SurvivalAnalysis';
+import {
+  VariantClassificationNormalizer,
+  NON_SYNONYMOUS_VARIANT_CLASSIFICATIONS
+} from './VariantClassificationNormalizer';
+import {
+  OncoprintRenderer,
+  SomaticInteractionsRenderer,
+  SurvivalRenderer,
+  ForestPlotRenderer,
+  CoOncoprintRenderer
+} from '../renderers';
 import { EventEmitter } from '../utils';
 
 export class OncoprintVisualizer extends EventEmitter {
@@ -18,8 +47,12 @@ export class OncoprintVisualizer extends EventEmitter {
   private processedData: ProcessedData | null = null;
   private rawMafData: MafData[] = [];
   private rawMetadataData: MetadataRow[] = [];
+  private rawCnaData: CopyNumberAlteration[] = [];
+  private rawExpressionData: ExpressionMatrix | null = null;
+  private rawGenePanelData: GenePanelData | null = null;
   private cohortInfo?: CohortInfo;
   private config: OncoprintConfig;
+  private excludedVariantCounts: Record<string, number> = {};
 
   constructor(container: HTMLElement, config: OncoprintConfig = {}) {
     super();
@@ -30,10 +63,18 @@ export class OncoprintVisualizer extends EventEmitter {
   }
 
   // Data loading methods
-  async loadMafFile(file: File): Promise<ValidationResult> {
+  async loadMafFile(file: File, options: MafParseOptions = {}): Promise<ValidationResult> {
     try {
-      const mafData = await MafParser.parseFromFile(file);
-      const validation = MafParser.validateMafData(mafData);
+      // Re-emit parser progress so UIs can drive a progress bar off the visualizer
+      const { data: mafData, header, diagnostics } = await MafParser.parse(file, {
+        ...options,
+        onProgress: (progress) => {
+          options.onProgress?.(progress);
+          this.emit('progress', progress);
+        }
+      });
+      const validation = MafParser.validateMafData(mafData, header);
+      validation.diagnostics = diagnostics;
       
       if (validation.isValid) {
         await this.loadMafData(mafData);
@@ -120,6 +161,137 @@ export class OncoprintVisualizer extends EventEmitter {
     }
   }
 
+  async loadCnaFile(file: File, options: CnaParseOptions = {}): Promise<ValidationResult> {
+    try {
+      const cnaData = await CnaParser.parseFromFile(file, options);
+      if (cnaData.length === 0) {
+        return {
+          isValid: false,
+          errors: [{ type: 'empty_file', message: 'No copy-number alterations found' }],
+          warnings: []
+        };
+      }
+
+      await this.loadCnaData(cnaData);
+      return { isValid: true, errors: [], warnings: [] };
+    } catch (error) {
+      const validationResult: ValidationResult = {
+        isValid: false,
+        errors: [{
+          type: 'invalid_format',
+          message: error instanceof Error ? error.message : 'Unknown error occurred'
+        }],
+        warnings: []
+      };
+      this.emit('error', error);
+      return validationResult;
+    }
+  }
+
+  async loadCnaData(data: CopyNumberAlteration[]): Promise<void> {
+    try {
+      if (this.rawMafData.length === 0) {
+        throw new Error('MAF data must be loaded before copy-number data');
+      }
+
+      this.rawCnaData = [...data];
+      this.reprocessData();
+      this.emit('dataLoaded', this.processedData);
+    } catch (error) {
+      this.emit('error', error);
+      throw error;
+    }
+  }
+
+  async loadExpressionFile(file: File): Promise<ValidationResult> {
+    try {
+      const matrix = await ExpressionParser.parseFromFile(file);
+      if (matrix.genes.length === 0) {
+        return {
+          isValid: false,
+          errors: [{ type: 'empty_file', message: 'No expression values found' }],
+          warnings: []
+        };
+      }
+
+      await this.loadExpressionData(matrix);
+      return { isValid: true, errors: [], warnings: [] };
+    } catch (error) {
+      const validationResult: ValidationResult = {
+        isValid: false,
+        errors: [{
+          type: 'invalid_format',
+          message: error instanceof Error ? error.message : 'Unknown error occurred'
+        }],
+        warnings: []
+      };
+      this.emit('error', error);
+      return validationResult;
+    }
+  }
+
+  async loadExpressionData(matrix: ExpressionMatrix): Promise<void> {
+    try {
+      if (this.rawMafData.length === 0) {
+        throw new Error('MAF data must be loaded before expression data');
+      }
+
+      this.rawExpressionData = matrix;
+      this.reprocessData();
+      this.emit('dataLoaded', this.processedData);
+    } catch (error) {
+      this.emit('error', error);
+      throw error;
+    }
+  }
+
+  async loadGenePanelFiles(sampleMatrixFile: File, panelFiles: File[]): Promise<ValidationResult> {
+    try {
+      const samplePanels = await GenePanelParser.parseSamplePanelsFromFile(sampleMatrixFile);
+      const panels: GenePanelData['panels'] = { [NOT_PROFILED_PANEL]: [] };
+      for (const file of panelFiles) {
+        const panel = await GenePanelParser.parsePanelFromFile(file);
+        panels[panel.id] = panel.genes;
+      }
+
+      // Samples on an undefined panel are still drawn, but as profiled for every gene
+      const missingPanels = Array.from(new Set(Object.values(samplePanels))).filter(id => !panels[id]);
+      const warnings: ValidationResult['warnings'] = missingPanels.map(id => ({
+        type: 'data_quality' as const,
+        message: `No gene list loaded for panel ${id}; its samples are treated as profiled for every gene`
+      }));
+
+      await this.loadGenePanelData({ samplePanels, panels });
+      return { isValid: true, errors: [], warnings };
+    } catch (error) {
+      const validationResult: ValidationResult = {
+        isValid: false,
+        errors: [{
+          type: 'invalid_format',
+          message: error instanceof Error ? error.message : 'Unknown error occurred'
+        }],
+        warnings: []
+      };
+      this.emit('error', error);
+      return validationResult;
+    }
+  }
+
+  async loadGenePanelData(data: GenePanelData): Promise<void> {
+    try {
+      if (this.rawMafData.length === 0) {
+        throw new Error('MAF data must be loaded before gene-panel data');
+      }
+
+      this.rawGenePanelData = data;
+      this.reprocessData();
+      this.emit('dataLoaded', this.processedData);
+    } catch (error) {
+      this.emit('error', error);
+      throw error;
+    }
+  }
+
   // Rendering methods
   render(): void {
     // console.log('=== OncoprintVisualizer.render() called ===');
@@ -165,6 +337,11 @@ export class OncoprintVisualizer extends EventEmitter {
       const needsReprocessing = this.rawMafData.length > 0 && (
         config.geneList !== undefined ||
         config.sampleList !== undefined ||
+        config.variantClassificationMap !== undefined ||
+        config.includeVariantClasses !== undefined ||
+        config.expression !== undefined ||
+        config.tmb !== undefined ||
+        'pathways' in config ||
         splitChanged
       );
       
@@ -222,6 +399,25 @@ export class OncoprintVisualizer extends EventEmitter {
     return this.processedData?.genes || [];
   }
 
+  // Genes with a row in the oncoprint, top to bottom
+  getDisplayedGenes(): string[] {
+    return this.renderer.getGeneOrder();
+  }
+
+  // Shows a collapsed pathway row's genes under it, or collapses it again; needs the `pathways` option
+  togglePathway(name: string): void {
+    if (!this.config.pathways) {
+      throw new Error('Pathway rows are not enabled');
+    }
+    const expanded = this.config.pathways.expanded ?? [];
+    this.update({
+      pathways: {
+        ...this.config.pathways,
+        expanded: expanded.includes(name) ? expanded.filter(pathway => pathway !== name) : [...expanded, name]
+      }
+    });
+  }
+
   getAllGenes(): string[] {
     // Return all genes from the original data, not just the filtered ones
     if (this.rawMafData.length === 0) return [];
@@ -272,6 +468,11 @@ export class OncoprintVisualizer extends EventEmitter {
     return Array.from(new Set(this.processedData.mutations.map(m => m.variantType))).sort();
   }
 
+  // Variant classifications that matched no known MAF class, with their row counts
+  getUnmappedVariantTypes(): Record<string, number> {
+    return { ...this.processedData?.variantClassifications?.unmapped };
+  }
+
   getMutationStats(): {
     totalMutations: number;
     totalGenes: number;
@@ -289,7 +490,8 @@ export class OncoprintVisualizer extends EventEmitter {
       };
     }
 
-    const { mutations, genes, samples } = this.processedData;
+    const { genes, samples } = this.processedData;
+    const mutations = DataProcessor.getDistinctMutations(this.processedData);
     
     return {
       totalMutations: mutations.length,
@@ -300,6 +502,102 @@ export class OncoprintVisualizer extends EventEmitter {
     };
   }
 
+  // Mutations per megabase for each plotted sample; see DataProcessor.calculateTmb
+  getTmb(): Record<string, SampleTmb> {
+    return { ...this.processedData?.tmb };
+  }
+
+  /**
+   * Mutual exclusivity and co-occurrence tests between gene pairs, by default
+   * the genes picked by `geneSelection`. Works on loaded data without rendering.
+   */
+  getGeneInteractions(genes?: string[]): GeneInteraction[] {
+    if (!this.processedData) return [];
+    return DataProcessor.calculateGeneInteractions(
+      this.processedData,
+      genes ?? DataProcessor.selectGenes(this.processedData, this.config.geneSelection)
+    );
+  }
+
+  // Genes enriched in each group of a categorical metadata field; see DataProcessor.calculateClinicalEnrichment
+  getClinicalEnrichment(field: string, options: ClinicalEnrichmentOptions = {}): ClinicalEnrichmentResult {
+    if (!this.processedData) {
+      throw new Error('No data available. Load MAF and metadata first.');
+    }
+    return DataProcessor.calculateClinicalEnrichment(this.processedData, field, options);
+  }
+
+  // Altered (in any of the genes) vs unaltered samples, e.g. a single gene or a pathway's genes
+  getSurvivalByAlteration(genes: string | string[], options: SurvivalOptions = {}): SurvivalComparison {
+    if (!this.processedData) {
+      throw new Error('No data available. Load MAF and metadata first.');
+    }
+    return SurvivalAnalysis.compareByAlteration(this.processedData, Array.isArray(genes) ? genes : [genes], options);
+  }
+
+  getSurvivalByMetadata(field: string, options: SurvivalOptions = {}): SurvivalComparison {
+    if (!this.processedData) {
+      throw new Error('No data available. Load MAF and metadata first.');
+    }
+    return SurvivalAnalysis.compareByMetadata(this.processedData, field, options);
+  }
+
+  renderSurvival(container: HTMLElement, comparison: SurvivalComparison, config: SurvivalPlotConfig = {}): SurvivalRenderer {
+    const renderer = new SurvivalRenderer(container, config);
+    renderer.setData(comparison);
+    renderer.render();
+    return renderer;
+  }
+
+  /**
+   * Compares alteration frequencies against another cohort, or between the
+   * two values of a metadata field when given a field name.
+   */
+  compareCohorts(other: ProcessedData | string, options: CohortComparisonOptions = {}): CohortComparison {
+    const { cohorts, names } = this.resolveCohorts(other, options.names);
+    return DataProcessor.compareCohorts(cohorts[0], cohorts[1], { ...options, names });
+  }
+
+  renderForestPlot(container: HTMLElement, comparison: CohortComparison, config: ForestPlotConfig = {}): ForestPlotRenderer {
+    const renderer = new ForestPlotRenderer(container, config);
+    renderer.setData(comparison);
+    renderer.render();
+    return renderer;
+  }
+
+  // Side-by-side oncoprints of this data and another cohort (or the two values of a metadata field)
+  renderCoOncoprint(container: HTMLElement, other: ProcessedData | string, config: CoOncoprintConfig = {}): CoOncoprintRenderer {
+    const { cohorts, names } = this.resolveCohorts(other, config.names);
+    const renderer = new CoOncoprintRenderer(container, {
+      ...this.config,
+      customGeneOrder: undefined, // The main view's order is not the shared one
+      ...config,
+      names,
+      metadata: config.metadata ?? { tracks: this.renderer.getMetadataConfig() }
+    });
+    renderer.setData(cohorts[0], cohorts[1]);
+    renderer.render();
+    return renderer;
+  }
+
+  /**
+   * Draws the somatic interactions heatmap into its own container, for the
+   * genes in the current oncoprint order unless `config.genes` is given.
+   */
+  renderSomaticInteractions(container: HTMLElement, config: SomaticInteractionsConfig = {}): SomaticInteractionsRenderer {
+    if (!this.processedData) {
+      throw new Error('No data available for rendering. Load MAF data first.');
+    }
+
+    const renderer = new SomaticInteractionsRenderer(container, {
+      ...config,
+      genes: config.genes ?? this.renderer.getGeneOrder()
+    });
+    renderer.setData(this.processedData);
+    renderer.render();
+    return renderer;
+  }
+
   // Configuration methods
   setConfig(config: OncoprintConfig): void {
     this.config = config;
@@ -368,14 +666,24 @@ export class OncoprintVisualizer extends EventEmitter {
   // Private methods
   private setupRendererEvents(): void {
     this.renderer.on('cellClick', (data) => this.emit('cellClick', data));
-    this.renderer.on('geneClick', (data) => this.emit('geneClick', data));
+    this.renderer.on('geneClick', (data) => {
+      this.emit('geneClick', data);
+      if (this.processedData?.pathways?.[data.gene] && this.config.pathways?.expandOnClick !== false) {
+        this.togglePathway(data.gene);
+      }
+      // Open the clicked gene's survival curves when a survival panel is configured
+      if (this.config.survival?.container) {
+        this.renderGeneSurvival(data.gene);
+      }
+    });
+    this.renderer.on('geneSetClick', (data) => this.emit('geneSetClick', data));
     this.renderer.on('sampleClick', (data) => this.emit('sampleClick', data));
     this.renderer.on('dataLoaded', (data) => this.emit('dataLoaded', data));
     this.renderer.on('error', (error) => this.emit('error', error));
   }
 
   private applyDataFilters(data: MafData[]): MafData[] {
-    let filteredData = [...data];
+    let filteredData = this.filterByVariantClass(data);
 
     // Filter by genes if specified
     if (this.config.geneList && this.config.geneList.length > 0) {
@@ -394,6 +702,69 @@ export class OncoprintVisualizer extends EventEmitter {
     return filteredData;
   }
 
+  // Expression outliers are only scored for genes that are already on the plot
+  private getExpressionOutliers(
+    mafData: MafData[],
+    copyNumber?: CopyNumberAlteration[]
+  ): ExpressionAlteration[] | undefined {
+    if (!this.rawExpressionData) return undefined;
+
+    const genes = new Set([
+      ...mafData.map(row => row.Hugo_Symbol),
+      ...(copyNumber ?? []).map(cna => cna.gene)
+    ]);
+    return DataProcessor.getExpressionOutliers(this.rawExpressionData, this.config.expression, Array.from(genes));
+  }
+
+  private filterCnaData(data: CopyNumberAlteration[]): CopyNumberAlteration[] {
+    const { geneList, sampleList } = this.config;
+    return data.filter(cna =>
+      (!geneList || geneList.length === 0 || geneList.includes(cna.gene)) &&
+      (!sampleList || sampleList.length === 0 || sampleList.includes(cna.sample))
+    );
+  }
+
+  // Drops rows outside `includeVariantClasses`, judged on the normalised class, and counts them per class
+  private filterByVariantClass(data: MafData[]): MafData[] {
+    this.excludedVariantCounts = {};
+    const include = this.config.includeVariantClasses ?? NON_SYNONYMOUS_VARIANT_CLASSIFICATIONS;
+    if (include === 'all') return [...data];
+
+    const included = new Set(include);
+    return data.filter(row => {
+      const variantClass = VariantClassificationNormalizer.classify(row, this.config.variantClassificationMap);
+      if (included.has(variantClass)) return true;
+
+      this.excludedVariantCounts[variantClass] = (this.excludedVariantCounts[variantClass] || 0) + 1;
+      return false;
+    });
+  }
+
+  private renderGeneSurvival(gene: string): void {
+    const { container, timeField, statusField, ...plotConfig } = this.config.survival!;
+    try {
+      const comparison = this.getSurvivalByAlteration(gene, { timeField, statusField });
+      this.renderSurvival(container, comparison, { title: gene, ...plotConfig });
+    } catch (error) {
+      this.emit('error', error);
+    }
+  }
+
+  private resolveCohorts(
+    other: ProcessedData | string,
+    names?: [string, string]
+  ): { cohorts: [ProcessedData, ProcessedData]; names: [string, string] } {
+    if (!this.processedData) {
+      throw new Error('No data available. Load MAF data first.');
+    }
+
+    if (typeof other === 'string') {
+      const [first, second] = DataProcessor.splitByMetadata(this.processedData, other);
+      return { cohorts: [first.data, second.data], names: names ?? [first.name, second.name] };
+    }
+    return { cohorts: [this.processedData, other], names: names ?? ['Cohort 1', 'Cohort 2'] };
+  }
+
   private reprocessData(): void {
     if (this.rawMafData.length === 0) {
       throw new Error('No MAF data available for reprocessing');
@@ -408,11 +779,39 @@ export class OncoprintVisualizer extends EventEmitter {
     
     const metadataToUse = this.rawMetadataData.length > 0 ? this.rawMetadataData : undefined;
     // console.log('Metadata to use:', metadataToUse ? metadataToUse.length : 'none');
+    const copyNumber = this.rawCnaData.length > 0 ? this.filterCnaData(this.rawCnaData) : undefined;
     
     // Pass cohort information for percentage calculation and missing sample handling
     try {
       // console.log('Calling DataProcessor.processData...');
-      this.processedData = DataProcessor.processData(filteredData, metadataToUse, this.cohortInfo);
+      this.processedData = DataProcessor.processData(
+        filteredData,
+        metadataToUse,
+        this.cohortInfo,
+        {
+          classificationMap: this.config.variantClassificationMap,
+          copyNumber,
+          expression: this.getExpressionOutliers(filteredData, copyNumber),
+          expressionSamples: this.rawExpressionData?.samples,
+          genePanels: this.rawGenePanelData ?? undefined
+        }
+      );
+      this.processedData.excludedVariantCounts = { ...this.excludedVariantCounts };
+      // Counted on the unfiltered MAF so gene and variant-class filters don't change TMB
+      this.processedData.tmb = DataProcessor.calculateTmb(
+        this.rawMafData,
+        this.processedData.samples,
+        this.config.tmb,
+        this.rawGenePanelData ?? undefined,
+        this.config.variantClassificationMap
+      );
+      if (this.config.pathways) {
+        this.processedData = DataProcessor.collapseToPathways(
+          this.processedData,
+          this.config.pathways.sets,
+          { expanded: this.config.pathways.expanded }
+        );
+      }
       // console.log('DataProcessor.processData completed successfully');
       // console.log('Processed data:', this.processedData);
     } catch (error) {
@@ -427,7 +826,8 @@ export class OncoprintVisualizer extends EventEmitter {
         this.config.splitBy.field,
         this.config.sortSamples,
         this.config.customSampleOrder,
-        undefined // geneOrder will be determined later in updateOrdering
+        undefined, // geneOrder will be determined later in updateOrdering
+        this.config.clustering
       );
     }
     
@@ -0,0 +1,213 @@
+import {
+  ProcessedData,
+  SurvivalOptions,
+  SurvivalObservation,
+  KaplanMeierCurve,
+  KaplanMeierPoint,
+  LogRankResult,
+  SurvivalComparison
+} from '../types';
+import { Statistics } from '../utils';
+import { DataProcessor } from './DataProcessor';
+
+// Status values counted as an event or as censored; cBioPortal writes e.g. '1:DECEASED' / '0:LIVING'
+const EVENT_VALUES = ['1', 'DECEASED', 'DEAD', 'TRUE', 'YES', 'EVENT', 'RECURRED', 'PROGRESSED', 'RECURRED/PROGRESSED'];
+const CENSORED_VALUES = ['0', 'LIVING', 'ALIVE', 'FALSE', 'NO', 'CENSORED', 'DISEASEFREE', 'PROGRESSIONFREE'];
+
+/**
+ * Kaplan–Meier estimates and log-rank tests on survival columns of the
+ * sample metadata (`OS_months` / `OS_status` by default).
+ */
+export class SurvivalAnalysis {
+  static parseEventStatus(value: string | number | undefined): boolean | undefined {
+    if (value === undefined || value === null) return undefined;
+
+    const text = String(value).trim().toUpperCase();
+    const code = text.split(':')[0].trim();
+    if (EVENT_VALUES.includes(code) || EVENT_VALUES.includes(text)) return true;
+    if (CENSORED_VALUES.includes(code) || CENSORED_VALUES.includes(text.replace(/\s+/g, ''))) return false;
+    return undefined;
+  }
+
+  // Samples with a usable time and status; the rest are left out of every curve
+  static getObservations(data: ProcessedData, options: SurvivalOptions = {}): Record<string, SurvivalObservation> {
+    const timeField = options.timeField || 'OS_months';
+    const statusField = options.statusField || 'OS_status';
+
+    const observations: Record<string, SurvivalObservation> = {};
+    data.samples.forEach(sample => {
+      const row = data.metadata.data[sample];
+      if (!row) return;
+
+      const time = typeof row[timeField] === 'number' ? row[timeField] as number : parseFloat(String(row[timeField]));
+      const event = this.parseEventStatus(row[statusField]);
+      if (isNaN(time) || time < 0 || event === undefined) return;
+
+      observations[sample] = { sample, time, event };
+    });
+    return observations;
+  }
+
+  static kaplanMeier(name: string, observations: SurvivalObservation[]): KaplanMeierCurve {
+    const sorted = [...observations].sort((a, b) => a.time - b.time);
+    const points: KaplanMeierPoint[] = [];
+
+    let atRisk = sorted.length;
+    let survival = 1;
+    let medianSurvival: number | undefined;
+    for (let i = 0; i < sorted.length;) {
+      const time = sorted[i].time;
+      let events = 0;
+      let censored = 0;
+      while (i < sorted.length && sorted[i].time === time) {
+        if (sorted[i].event) events++;
+        else censored++;
+        i++;
+      }
+
+      survival *= 1 - events / atRisk;
+      if (medianSurvival === undefined && survival <= 0.5) {
+        medianSurvival = time;
+      }
+      points.push({ time, survival, atRisk, events, censored });
+      atRisk -= events + censored;
+    }
+
+    return {
+      name,
+      samples: sorted.length,
+      events: sorted.filter(observation => observation.event).length,
+      medianSurvival,
+      points
+    };
+  }
+
+  /**
+   * Log-rank test across any number of groups, on k - 1 degrees of freedom.
+   */
+  static logRankTest(groups: SurvivalObservation[][]): LogRankResult | undefined {
+    const nonEmpty = groups.filter(group => group.length > 0);
+    if (nonEmpty.length < 2) return undefined;
+
+    const k = nonEmpty.length;
+    const times = Array.from(new Set(nonEmpty.flat().filter(o => o.event).map(o => o.time))).sort((a, b) => a - b);
+    const observedMinusExpected = new Array<number>(k).fill(0);
+    const variance = Array.from({ length: k }, () => new Array<number>(k).fill(0));
+
+    times.forEach(time => {
+      const atRisk = nonEmpty.map(group => group.filter(o => o.time >= time).length);
+      const events = nonEmpty.map(group => group.filter(o => o.time === time && o.event).length);
+      const totalAtRisk = atRisk.reduce((sum, n) => sum + n, 0);
+      const totalEvents = events.reduce((sum, d) => sum + d, 0);
+
+      for (let g = 0; g < k; g++) {
+        observedMinusExpected[g] += events[g] - (atRisk[g] * totalEvents) / totalAtRisk;
+      }
+      if (totalAtRisk < 2) return;
+
+      const factor = (totalEvents * (totalAtRisk - totalEvents)) / (totalAtRisk - 1);
+      for (let g = 0; g < k; g++) {
+        for (let h = 0; h < k; h++) {
+          const share = atRisk[g] / totalAtRisk;
+          variance[g][h] += factor * share * ((g === h ? 1 : 0) - atRisk[h] / totalAtRisk);
+        }
+      }
+    });
+
+    // The k deviations sum to zero, so drop the last group and invert the rest
+    const degreesOfFreedom = k - 1;
+    const inverse = this.invert(variance.slice(0, degreesOfFreedom).map(row => row.slice(0, degreesOfFreedom)));
+    if (!inverse) {
+      return { chiSquare: 0, degreesOfFreedom, pValue: 1 };
+    }
+
+    let chiSquare = 0;
+    for (let g = 0; g < degreesOfFreedom; g++) {
+      for (let h = 0; h < degreesOfFreedom; h++) {
+        chiSquare += observedMinusExpected[g] * inverse[g][h] * observedMinusExpected[h];
+      }
+    }
+
+    return { chiSquare, degreesOfFreedom, pValue: Statistics.chiSquarePValue(chiSquare, degreesOfFreedom) };
+  }
+
+  static compareGroups(
+    data: ProcessedData,
+    groups: Record<string, string[]>,
+    options: SurvivalOptions = {}
+  ): SurvivalComparison {
+    const observations = this.getObservations(data, options);
+    const grouped = Object.entries(groups).map(([name, samples]) => ({
+      name,
+      observations: samples.filter(sample => observations[sample]).map(sample => observations[sample])
+    }));
+
+    return {
+      curves: grouped.map(group => this.kaplanMeier(group.name, group.observations)),
+      logRank: this.logRankTest(grouped.map(group => group.observations))
+    };
+  }
+
+  /**
+   * Samples altered in any of `genes` against the rest. Samples not profiled
+   * for any of the genes are left out.
+   */
+  static compareByAlteration(data: ProcessedData, genes: string[], options: SurvivalOptions = {}): SurvivalComparison {
+    const alteredSamples = DataProcessor.getAlteredSamples(data);
+    const altered: string[] = [];
+    const unaltered: string[] = [];
+
+    data.samples.forEach(sample => {
+      if (genes.some(gene => alteredSamples[gene]?.has(sample))) {
+        altered.push(sample);
+      } else if (genes.some(gene => DataProcessor.isProfiled(data, gene, sample))) {
+        unaltered.push(sample);
+      }
+    });
+
+    return this.compareGroups(data, { Altered: altered, Unaltered: unaltered }, options);
+  }
+
+  // One curve per value of a categorical metadata field
+  static compareByMetadata(data: ProcessedData, field: string, options: SurvivalOptions = {}): SurvivalComparison {
+    const groups: Record<string, string[]> = {};
+    data.samples.forEach(sample => {
+      const value = data.metadata.data[sample]?.[field];
+      if (value === undefined || value === null || value === '' || value === 'NA') return;
+      const group = String(value);
+      if (!groups[group]) groups[group] = [];
+      groups[group].push(sample);
+    });
+
+    const sorted: Record<string, string[]> = {};
+    Object.keys(groups).sort().forEach(group => {
+      sorted[group] = groups[group];
+    });
+    return this.compareGroups(data, sorted, options);
+  }
+
+  // Gauss–Jordan inverse; undefined for a singular matrix
+  private static invert(matrix: number[][]): number[][] | undefined {
+    const n = matrix.length;
+    const augmented = matrix.map((row, i) => [...row, ...row.map((_, j) => (i === j ? 1 : 0))]);
+
+    for (let column = 0; column < n; column++) {
+      let pivot = column;
+      for (let row = column + 1; row < n; row++) {
+        if (Math.abs(augmented[row][column]) > Math.abs(augmented[pivot][column])) pivot = row;
+      }
+      if (Math.abs(augmented[pivot][column]) < 1e-12) return undefined;
+      [augmented[column], augmented[pivot]] = [augmented[pivot], augmented[column]];
+
+      const divisor = augmented[column][column];
+      augmented[column] = augmented[column].map(value => value / divisor);
+      for (let row = 0; row < n; row++) {
+        if (row === column) continue;
+        const factor = augmented[row][column];
+        augmented[row] = augmented[row].map((value, j) => value - factor * augmented[column][j]);
+      }
+    }
+
+    return augmented.map(row => row.slice(n));
+  }
+}
@@ -0,0 +1,270 @@
+import { MafData, VariantClassificationReport } from '../types';
+
+// MAF Variant_Classification values, as written by vcf2maf and the GDC pipeline
+export const MAF_VARIANT_CLASSIFICATIONS = [
+  'Missense_Mutation', 'Nonsense_Mutation', 'Frame_Shift_Del', 'Frame_Shift_Ins', 'In_Frame_Del',
+  'In_Frame_Ins', 'Splice_Site', 'Translation_Start_Site', 'Nonstop_Mutation', 'Multi_Hit',
+  'Silent', 'Splice_Region', 'Intron', 'RNA', "3'UTR", "5'UTR", "3'Flank", "5'Flank", 'IGR',
+  'Targeted_Region', 'De_novo_Start_InFrame', 'De_novo_Start_OutOfFrame', 'Start_Codon_SNP',
+  'Start_Codon_Del', 'Start_Codon_Ins', 'Stop_Codon_Del', 'Stop_Codon_Ins', 'lincRNA', 'Unknown',
+  'Fusion'
+];
+
+// Protein-altering classes kept by default, as in maftools (`vc_nonSyn`), plus aggregated Multi_Hit
+// calls and gene fusions
+export const NON_SYNONYMOUS_VARIANT_CLASSIFICATIONS = [
+  'Frame_Shift_Del', 'Frame_Shift_Ins', 'Splice_Site', 'Translation_Start_Site', 'Nonsense_Mutation',
+  'Nonstop_Mutation', 'In_Frame_Del', 'In_Frame_Ins', 'Missense_Mutation', 'Multi_Hit', 'Fusion'
+];
+
+// Sequence Ontology consequences from most to least severe (Ensembl VEP ranking plus SnpEff terms)
+const SO_SEVERITY = [
+  'transcript_ablation', 'exon_loss_variant', 'splice_acceptor_variant', 'splice_donor_variant',
+  'stop_gained', 'frameshift_variant', 'stop_lost', 'start_lost', 'initiator_codon_variant',
+  'transcript_amplification', 'feature_elongation', 'feature_truncation',
+  'inframe_insertion', 'disruptive_inframe_insertion', 'conservative_inframe_insertion',
+  'inframe_deletion', 'disruptive_inframe_deletion', 'conservative_inframe_deletion',
+  'missense_variant', 'rare_amino_acid_variant', 'protein_altering_variant',
+  'splice_donor_5th_base_variant', 'splice_region_variant', 'splice_donor_region_variant',
+  'splice_polypyrimidine_tract_variant', 'incomplete_terminal_codon_variant', 'start_retained_variant',
+  'stop_retained_variant', 'synonymous_variant', 'coding_sequence_variant', 'mature_miRNA_variant',
+  '5_prime_UTR_premature_start_codon_gain_variant', '5_prime_UTR_variant', '3_prime_UTR_variant',
+  'non_coding_transcript_exon_variant', 'non_coding_exon_variant', 'intron_variant',
+  'NMD_transcript_variant', 'non_coding_transcript_variant', 'upstream_gene_variant',
+  'downstream_gene_variant', 'TFBS_ablation', 'TFBS_amplification', 'TF_binding_site_variant',
+  'regulatory_region_ablation', 'regulatory_region_amplification', 'regulatory_region_variant',
+  'intragenic_variant', 'intergenic_region', 'intergenic_variant', 'sequence_variant'
+];
+
+// MAF classification per SO term; frameshift and protein-altering terms depend on the variant type
+const SO_CLASSIFICATIONS: Record<string, string> = {
+  transcript_ablation: 'Splice_Site',
+  exon_loss_variant: 'Splice_Site',
+  splice_acceptor_variant: 'Splice_Site',
+  splice_donor_variant: 'Splice_Site',
+  stop_gained: 'Nonsense_Mutation',
+  stop_lost: 'Nonstop_Mutation',
+  start_lost: 'Translation_Start_Site',
+  initiator_codon_variant: 'Translation_Start_Site',
+  inframe_insertion: 'In_Frame_Ins',
+  disruptive_inframe_insertion: 'In_Frame_Ins',
+  conservative_inframe_insertion: 'In_Frame_Ins',
+  inframe_deletion: 'In_Frame_Del',
+  disruptive_inframe_deletion: 'In_Frame_Del',
+  conservative_inframe_deletion: 'In_Frame_Del',
+  missense_variant: 'Missense_Mutation',
+  rare_amino_acid_variant: 'Missense_Mutation',
+  coding_sequence_variant: 'Missense_Mutation',
+  transcript_amplification: 'Intron',
+  intron_variant: 'Intron',
+  intragenic_variant: 'Intron',
+  splice_donor_5th_base_variant: 'Splice_Region',
+  splice_region_variant: 'Splice_Region',
+  splice_donor_region_variant: 'Splice_Region',
+  splice_polypyrimidine_tract_variant: 'Splice_Region',
+  incomplete_terminal_codon_variant: 'Silent',
+  start_retained_variant: 'Silent',
+  stop_retained_variant: 'Silent',
+  synonymous_variant: 'Silent',
+  NMD_transcript_variant: 'Silent',
+  mature_miRNA_variant: 'RNA',
+  non_coding_transcript_exon_variant: 'RNA',
+  non_coding_exon_variant: 'RNA',
+  non_coding_transcript_variant: 'RNA',
+  '5_prime_UTR_premature_start_codon_gain_variant': "5'UTR",
+  '5_prime_UTR_variant': "5'UTR",
+  '3_prime_UTR_variant': "3'UTR",
+  upstream_gene_variant: "5'Flank",
+  downstream_gene_variant: "3'Flank",
+  TFBS_ablation: 'IGR',
+  TFBS_amplification: 'IGR',
+  TF_binding_site_variant: 'IGR',
+  regulatory_region_ablation: 'IGR',
+  regulatory_region_amplification: 'IGR',
+  regulatory_region_variant: 'IGR',
+  intergenic_region: 'IGR',
+  intergenic_variant: 'IGR'
+};
+
+// Shorthand used by ANNOVAR, cBioPortal and hand-made tables
+const COMMON_ALIASES: Record<string, string> = {
+  missense: 'Missense_Mutation',
+  nonsynonymous_snv: 'Missense_Mutation',
+  nonsense: 'Nonsense_Mutation',
+  stopgain: 'Nonsense_Mutation',
+  stop_gain: 'Nonsense_Mutation',
+  stoploss: 'Nonstop_Mutation',
+  stop_loss: 'Nonstop_Mutation',
+  nonstop: 'Nonstop_Mutation',
+  startloss: 'Translation_Start_Site',
+  start_loss: 'Translation_Start_Site',
+  frameshift_deletion: 'Frame_Shift_Del',
+  frameshift_del: 'Frame_Shift_Del',
+  frameshift_insertion: 'Frame_Shift_Ins',
+  frameshift_ins: 'Frame_Shift_Ins',
+  nonframeshift_deletion: 'In_Frame_Del',
+  inframe_del: 'In_Frame_Del',
+  nonframeshift_insertion: 'In_Frame_Ins',
+  inframe_ins: 'In_Frame_Ins',
+  splicing: 'Splice_Site',
+  splice: 'Splice_Site',
+  splice_site_variant: 'Splice_Site',
+  synonymous: 'Silent',
+  synonymous_snv: 'Silent',
+  intronic: 'Intron',
+  intergenic: 'IGR',
+  utr3: "3'UTR",
+  '3utr': "3'UTR",
+  utr5: "5'UTR",
+  '5utr': "5'UTR",
+  upstream: "5'Flank",
+  downstream: "3'Flank",
+  ncrna_exonic: 'RNA',
+  multi_hit: 'Multi_Hit',
+  multiple: 'Multi_Hit',
+  gene_fusion: 'Fusion',
+  bidirectional_gene_fusion: 'Fusion'
+};
+
+/**
+ * Maps variant classifications written in other vocabularies (Sequence Ontology
+ * terms, ANNOVAR/cBioPortal shorthand, differently cased MAF names) onto the
+ * MAF Variant_Classification values the colour scheme and legend know about.
+ */
+export class VariantClassificationNormalizer {
+  private static lookup?: Map<string, string>;
+  private static severity?: Map<string, number>;
+
+  /**
+   * Returns the MAF class for a term, or undefined when it cannot be mapped.
+   * `&`-joined SO terms resolve to the most severe one. Frameshift and
+   * protein-altering consequences need `variantType` (INS/DEL) to pick a class.
+   */
+  static normalize(
+    term: string,
+    variantType?: string,
+    overrides: Record<string, string> = {},
+    inframe?: boolean
+  ): string | undefined {
+    const trimmed = term.trim();
+    const override = this.findOverride(trimmed, overrides);
+    if (override !== undefined) return override;
+
+    const parts = trimmed.split('&').map(part => part.trim()).filter(part => part !== '');
+    if (parts.length === 0) return undefined;
+
+    const so = this.getMostSevereConsequence(parts);
+    if (so) return this.classifyConsequence(so, variantType, inframe);
+
+    return parts.length === 1 ? this.getLookup().get(this.toKey(parts[0])) : undefined;
+  }
+
+  /**
+   * Rewrites Variant_Classification on every row, recording which terms were
+   * renamed and counting the rows whose term could not be mapped. Unmapped
+   * terms are left as they are.
+   */
+  static normalizeData(
+    data: MafData[],
+    overrides: Record<string, string> = {}
+  ): { data: MafData[]; report: VariantClassificationReport } {
+    const report: VariantClassificationReport = { mapped: {}, unmapped: {} };
+    const cache = new Map<string, string | undefined>();
+
+    const normalized = data.map(row => {
+      const term = row.Variant_Classification;
+      if (!term) return row;
+
+      const variantType = this.getVariantType(row);
+      const key = `${term}\t${variantType ?? ''}`;
+      if (!cache.has(key)) {
+        cache.set(key, this.normalize(term, variantType, overrides));
+      }
+      const canonical = cache.get(key);
+
+      if (canonical === undefined) {
+        report.unmapped[term] = (report.unmapped[term] || 0) + 1;
+        return row;
+      }
+      if (canonical === term) return row;
+
+      report.mapped[term] = canonical;
+      return { ...row, Variant_Classification: canonical };
+    });
+
+    return { data: normalized, report };
+  }
+
+  /**
+   * The MAF class of a row, taking the variant type from `Variant_Type` or the
+   * allele lengths. Falls back to the row's own term when it cannot be mapped.
+   */
+  static classify(row: MafData, overrides: Record<string, string> = {}): string {
+    return this.normalize(row.Variant_Classification, this.getVariantType(row), overrides) ?? row.Variant_Classification;
+  }
+
+  static getMostSevereConsequence(terms: string[]): string | undefined {
+    const severity = this.getConsequenceSeverity(terms);
+    return SO_SEVERITY[severity];
+  }
+
+  // Rank of the most severe SO term, or the length of the ranking when none is known
+  static getConsequenceSeverity(terms: string[]): number {
+    if (!this.severity) {
+      this.severity = new Map(SO_SEVERITY.map((term, index) => [term.toLowerCase(), index]));
+    }
+    return Math.min(SO_SEVERITY.length, ...terms.map(term =>
+      this.severity!.get(term.trim().toLowerCase()) ?? SO_SEVERITY.length
+    ));
+  }
+
+  private static classifyConsequence(term: string, variantType?: string, inframe?: boolean): string | undefined {
+    const type = variantType?.toUpperCase();
+    if (term === 'frameshift_variant' || (term === 'protein_altering_variant' && inframe === false)) {
+      if (type === 'DEL') return 'Frame_Shift_Del';
+      if (type === 'INS') return 'Frame_Shift_Ins';
+      // e.g. a Consequence-only table: still truncating, and deletions are the more common frameshift
+      return 'Frame_Shift_Del';
+    }
+    if (term === 'protein_altering_variant') {
+      if (type === 'DEL') return inframe ? 'In_Frame_Del' : undefined;
+      if (type === 'INS') return inframe ? 'In_Frame_Ins' : undefined;
+      return 'Missense_Mutation';
+    }
+    return SO_CLASSIFICATIONS[term] ?? 'Targeted_Region';
+  }
+
+  // Variant_Type when present, otherwise inferred from the allele lengths
+  private static getVariantType(row: MafData): string | undefined {
+    if (typeof row.Variant_Type === 'string' && row.Variant_Type !== '') {
+      return row.Variant_Type;
+    }
+    const ref = row.Reference_Allele;
+    const alt = row.Tumor_Seq_Allele2;
+    if (typeof ref !== 'string' || typeof alt !== 'string') return undefined;
+    if (ref === '-' || alt.length > ref.length) return 'INS';
+    if (alt === '-' || alt.length < ref.length) return 'DEL';
+    return 'SNP';
+  }
+
+  private static findOverride(term: string, overrides: Record<string, string>): string | undefined {
+    if (term in overrides) return overrides[term];
+    const key = this.toKey(term);
+    const match = Object.keys(overrides).find(source => this.toKey(source) === key);
+    return match === undefined ? undefined : overrides[match];
+  }
+
+  private static getLookup(): Map<string, string> {
+    if (!this.lookup) {
+      this.lookup = new Map();
+      MAF_VARIANT_CLASSIFICATIONS.forEach(name => this.lookup!.set(this.toKey(name), name));
+      Object.entries(COMMON_ALIASES).forEach(([alias, name]) => this.lookup!.set(alias, name));
+    }
+    return this.lookup;
+  }
+
+  // Case-, space- and hyphen-insensitive key, so 'Missense mutation' matches 'Missense_Mutation'
+  private static toKey(term: string): string {
+    return term.trim().toLowerCase().replace(/[\s-]+/g, '_');
+  }
+}
@@ -1,4 +1,5 @@
 import * as d3 from 'd3';
+import { CnaType } from '../types';
 
 export const DEFAULT_VARIANT_COLORS = {
   Missense_Mutation: "#16a085",      // Teal
@@ -11,10 +12,37 @@ export const DEFAULT_VARIANT_COLORS = {
   Multi_Hit: "#95a5a6",              // Gray
   Translation_Start_Site: "#e74c3c", // Light Red
   Nonstop_Mutation: "#d35400",       // Dark Orange
+  Fusion: "#5b2c6f",                 // Dark Purple
   Default: "#95a5a6",                // Gray
   Empty: "#ecf0f1"                   // Light Gray
 };
 
+// Copy-number backgrounds, following the cBioPortal palette
+export const DEFAULT_CNA_COLORS: Record<CnaType, string> = {
+  AMP: "#ff0000",      // Red
+  GAIN: "#ffb6c1",     // Light Pink
+  HETLOSS: "#8fd8d8",  // Light Cyan
+  HOMDEL: "#0000ff"    // Blue
+};
+
+export const CNA_LABELS: Record<CnaType, string> = {
+  AMP: 'Amplification',
+  GAIN: 'Gain',
+  HETLOSS: 'Shallow Deletion',
+  HOMDEL: 'Deep Deletion'
+};
+
+// Cell outlines for expression outliers
+export const DEFAULT_EXPRESSION_COLORS = {
+  UP: "#ff9999",   // Light Red
+  DOWN: "#6699cc"  // Steel Blue
+};
+
+export const EXPRESSION_LABELS = {
+  UP: 'High',
+  DOWN: 'Low'
+};
+
 export class VariantColorManager {
   private predefinedColors: Record<string, string>;
   private dynamicColors: Record<string, string> = {};
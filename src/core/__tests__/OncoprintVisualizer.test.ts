@@ -1,4 +1,6 @@
 import { DataProcessor } from '../DataProcessor';
+import { OncoprintVisualizer } from '../OncoprintVisualizer';
+import { NOT_PROFILED_PANEL } from '../../parsers';
 
 describe('DataProcessor', () => {
   it('should process MAF data correctly', () => {
@@ -36,4 +38,416 @@ describe('DataProcessor', () => {
     expect(sortedGenes[0]).toBe('TP53'); // Most frequent first
     expect(sortedGenes[1]).toBe('KRAS');
   });
-});
\ No newline at end of file
+
+  it('should select genes by top N and minimum frequency, with include and exclude lists', () => {
+    const samples = ['S1', 'S2', 'S3', 'S4', 'S5', 'S6', 'S7', 'S8', 'S9', 'S10'];
+    const mockMafData = [
+      ...samples.slice(0, 5).map(sample => ({ Hugo_Symbol: 'TP53', Tumor_Sample_Barcode: sample, Variant_Classification: 'Missense_Mutation' })),
+      ...samples.slice(0, 4).map(sample => ({ Hugo_Symbol: 'TTN', Tumor_Sample_Barcode: sample, Variant_Classification: 'Missense_Mutation' })),
+      ...samples.slice(0, 3).map(sample => ({ Hugo_Symbol: 'KRAS', Tumor_Sample_Barcode: sample, Variant_Classification: 'Missense_Mutation' })),
+      { Hugo_Symbol: 'CDKN2A', Tumor_Sample_Barcode: 'S10', Variant_Classification: 'Nonsense_Mutation' }
+    ];
+    const processedData = DataProcessor.processData(mockMafData, undefined, { samples });
+
+    expect(DataProcessor.selectGenes(processedData)).toEqual(['TP53', 'TTN', 'KRAS', 'CDKN2A']);
+    expect(DataProcessor.selectGenes(processedData, { topN: 2 })).toEqual(['TP53', 'TTN']);
+    expect(DataProcessor.selectGenes(processedData, { minAlteredFraction: 0.3 })).toEqual(['TP53', 'TTN', 'KRAS']);
+    expect(DataProcessor.selectGenes(processedData, {
+      topN: 2,
+      include: ['CDKN2A', 'NOT_IN_DATA'],
+      exclude: ['TTN']
+    })).toEqual(['TP53', 'KRAS', 'CDKN2A']);
+  });
+
+  it('should split an ordered gene list into gene set blocks', () => {
+    const sets = [
+      { name: 'RTK/RAS', genes: ['EGFR', 'KRAS', 'NF1'] },
+      { name: 'TP53', genes: ['TP53', 'MDM2', 'NF1'] },
+      { name: 'Empty', genes: ['NOT_SHOWN'] }
+    ];
+    const genes = ['TP53', 'NF1', 'KRAS', 'TTN'];
+
+    expect(DataProcessor.groupGenesBySets(genes, sets).map(set => [set.name, set.genes])).toEqual([
+      ['RTK/RAS', ['NF1', 'KRAS']],
+      ['TP53', ['TP53', 'NF1']]
+    ]);
+    expect(DataProcessor.groupGenesBySets(genes, sets, { overlap: 'first', otherGenes: true }).map(set => [set.name, set.genes])).toEqual([
+      ['RTK/RAS', ['NF1', 'KRAS']],
+      ['TP53', ['TP53']],
+      ['Other', ['TTN']]
+    ]);
+  });
+
+  it('should collapse genes into pathway rows and keep expanded pathways\' genes', () => {
+    const mafData = [
+      { Hugo_Symbol: 'KRAS', Tumor_Sample_Barcode: 'S1', Variant_Classification: 'Missense_Mutation', Protein_Change: 'G12D' },
+      { Hugo_Symbol: 'BRAF', Tumor_Sample_Barcode: 'S2', Variant_Classification: 'Missense_Mutation', Protein_Change: 'V600E' },
+      { Hugo_Symbol: 'TP53', Tumor_Sample_Barcode: 'S1', Variant_Classification: 'Nonsense_Mutation' },
+      { Hugo_Symbol: 'TTN', Tumor_Sample_Barcode: 'S3', Variant_Classification: 'Missense_Mutation' }
+    ];
+    const processedData = DataProcessor.processData(mafData);
+
+    const collapsed = DataProcessor.collapseToPathways(processedData);
+    expect(collapsed.genes).toEqual(['RTK-RAS', 'TP53 pathway']);
+    expect(collapsed.pathways).toEqual({ 'RTK-RAS': ['KRAS', 'BRAF'], 'TP53 pathway': ['TP53'] });
+    expect(DataProcessor.calculateMutationFrequencies(collapsed)['RTK-RAS']).toBeCloseTo(2 / 3);
+    expect(DataProcessor.getMutationMatrix(collapsed)['RTK-RAS'].S2).toMatchObject({ pathwayGene: 'BRAF', proteinChange: 'V600E' });
+
+    const expanded = DataProcessor.collapseToPathways(processedData, undefined, { expanded: ['RTK-RAS'] });
+    expect(expanded.genes).toEqual(['RTK-RAS', 'TP53 pathway', 'BRAF', 'KRAS']);
+    expect(() => DataProcessor.collapseToPathways(processedData, [{ name: 'KRAS', genes: ['KRAS'] }], { expanded: ['KRAS'] }))
+      .toThrow('Pathway name KRAS is also the name of one of its genes');
+  });
+
+  it('should count each mutation once after collapsing to pathways', () => {
+    // CDKN2A is in both the cell cycle and the TP53 pathway
+    const processedData = DataProcessor.processData([
+      { Hugo_Symbol: 'KRAS', Tumor_Sample_Barcode: 'S1', Variant_Classification: 'Missense_Mutation' },
+      { Hugo_Symbol: 'CDKN2A', Tumor_Sample_Barcode: 'S1', Variant_Classification: 'Nonsense_Mutation' },
+      { Hugo_Symbol: 'TP53', Tumor_Sample_Barcode: 'S2', Variant_Classification: 'Missense_Mutation' },
+      { Hugo_Symbol: 'TP53', Tumor_Sample_Barcode: 'S2', Variant_Classification: 'Frame_Shift_Del' }
+    ]);
+    const collapsed = DataProcessor.collapseToPathways(processedData, undefined, { expanded: ['TP53 pathway'] });
+    expect(collapsed.mutations).toHaveLength(8);
+
+    const distinct = DataProcessor.getDistinctMutations(collapsed);
+    const load = (sample: string) => distinct.filter(m => m.sample === sample).map(m => m.variantType).sort();
+    expect(load('S1')).toEqual(['Missense_Mutation', 'Nonsense_Mutation']);
+    expect(load('S2')).toEqual(['Frame_Shift_Del', 'Missense_Mutation']);
+    expect(DataProcessor.getDistinctMutations(processedData)).toBe(processedData.mutations);
+  });
+
+  it('should cluster hierarchically with hclust merge heights', () => {
+    const items = ['a', 'b', 'c', 'd', 'e'];
+    const points = [[0], [1], [5], [6], [20]];
+    const heights = (linkage: 'average' | 'complete' | 'ward') => {
+      const root = DataProcessor.hierarchicalCluster(items, points, { distance: 'euclidean', linkage }).tree!;
+      return [root.height, root.children![1].height];
+    };
+
+    expect(heights('average')).toEqual([17, 5]);
+    expect(heights('complete')).toEqual([20, 6]);
+    expect(heights('ward')[0]).toBeCloseTo(Math.sqrt(1.6) * 17);
+    expect(heights('ward')[1]).toBeCloseTo(Math.sqrt(2) * 5);
+    // Higher-scoring clusters come first
+    expect(DataProcessor.hierarchicalCluster(items, points, { distance: 'euclidean' }).order).toEqual(['e', 'd', 'c', 'b', 'a']);
+
+    const mafData = [
+      ['TP53', 'S1'], ['TP53', 'S3'], ['KRAS', 'S2'], ['KRAS', 'S4'], ['PTEN', 'S1']
+    ].map(([gene, sample]) => ({ Hugo_Symbol: gene, Tumor_Sample_Barcode: sample, Variant_Classification: 'Missense_Mutation' }));
+    const processedData = DataProcessor.processData(mafData);
+    expect(DataProcessor.clusterSamples(processedData, ['TP53', 'KRAS', 'PTEN']).order).toEqual(['S1', 'S3', 'S2', 'S4']);
+  });
+
+  it('should merge copy-number alterations and count altered samples across both layers', () => {
+    const mockMafData = [
+      { Hugo_Symbol: 'TP53', Tumor_Sample_Barcode: 'Sample_1', Variant_Classification: 'Missense_Mutation' },
+      { Hugo_Symbol: 'ERBB2', Tumor_Sample_Barcode: 'Sample_1', Variant_Classification: 'Missense_Mutation' }
+    ];
+    const copyNumber = [
+      { gene: 'ERBB2', sample: 'Sample_1', type: 'AMP' as const },
+      { gene: 'ERBB2', sample: 'Sample_2', type: 'AMP' as const },
+      { gene: 'ERBB2', sample: 'Sample_3', type: 'HOMDEL' as const }
+    ];
+
+    const processedData = DataProcessor.processData(mockMafData, undefined, undefined, { copyNumber });
+    expect(processedData.samples).toEqual(['Sample_1', 'Sample_2', 'Sample_3']);
+    expect(DataProcessor.calculateMutationFrequencies(processedData)).toEqual({ ERBB2: 1, TP53: 1 / 3 });
+    expect(DataProcessor.sortGenesByFrequency(processedData)[0]).toBe('ERBB2');
+    expect(DataProcessor.getCnaMatrix(processedData).ERBB2).toEqual({
+      Sample_1: 'AMP', Sample_2: 'AMP', Sample_3: 'HOMDEL'
+    });
+  });
+
+  it('should break altered samples per gene down by variant class, Multi_Hit and copy number', () => {
+    const row = (gene: string, sample: string, variantClass: string) => ({
+      Hugo_Symbol: gene, Tumor_Sample_Barcode: sample, Variant_Classification: variantClass
+    });
+    const processedData = DataProcessor.processData([
+      row('TP53', 'S1', 'Missense_Mutation'),
+      row('TP53', 'S1', 'Missense_Mutation'),
+      row('TP53', 'S2', 'Missense_Mutation'),
+      row('TP53', 'S2', 'Nonsense_Mutation'),
+      row('KRAS', 'S3', 'Missense_Mutation')
+    ], undefined, undefined, {
+      copyNumber: [
+        { gene: 'KRAS', sample: 'S3', type: 'AMP' },
+        { gene: 'KRAS', sample: 'S1', type: 'AMP' },
+        { gene: 'KRAS', sample: 'S2', type: 'HOMDEL' }
+      ]
+    });
+
+    expect(DataProcessor.getAlterationBreakdown(processedData)).toEqual({
+      TP53: { Missense_Mutation: 1, Multi_Hit: 1 },
+      KRAS: { Missense_Mutation: 1, AMP: 1, HOMDEL: 1 }
+    });
+  });
+
+  it('should call expression outliers from z-scores against the reference samples', () => {
+    const matrix = {
+      genes: ['ERBB2', 'GAPDH'],
+      samples: ['S1', 'S2', 'S3', 'S4', 'N1', 'N2'],
+      values: {
+        ERBB2: { S1: 40, S2: 10, S3: 0, S4: 11, N1: 9, N2: 11 },
+        GAPDH: { S1: 5, S2: 5, S3: 5, S4: 5, N1: 5, N2: 5 }
+      }
+    };
+
+    const zScores = DataProcessor.calculateZScores(matrix, ['N1', 'N2']);
+    expect(zScores.ERBB2.S2).toBeCloseTo(0);
+    expect(zScores.ERBB2.S1).toBeCloseTo(30 / Math.SQRT2);
+    // Constant genes have no spread to score against
+    expect(zScores.GAPDH).toBeUndefined();
+
+    const outliers = DataProcessor.getExpressionOutliers(matrix, { referenceSamples: ['N1', 'N2'] });
+    expect(outliers.map(e => [e.sample, e.direction])).toEqual([['S1', 'UP'], ['S3', 'DOWN']]);
+
+    const mafData = [
+      { Hugo_Symbol: 'ERBB2', Tumor_Sample_Barcode: 'S2', Variant_Classification: 'Missense_Mutation' },
+      { Hugo_Symbol: 'TP53', Tumor_Sample_Barcode: 'S1', Variant_Classification: 'Missense_Mutation' },
+      { Hugo_Symbol: 'TP53', Tumor_Sample_Barcode: 'S3', Variant_Classification: 'Missense_Mutation' }
+    ];
+    const processedData = DataProcessor.processData(mafData, undefined, undefined, { expression: outliers });
+    // Expression frequencies are kept apart from the mutation frequencies
+    expect(DataProcessor.calculateMutationFrequencies(processedData)).toEqual({ ERBB2: 1 / 3, TP53: 2 / 3 });
+    expect(DataProcessor.calculateExpressionFrequencies(processedData)).toEqual({ ERBB2: 2 / 3, TP53: 0 });
+
+    // With partial RNA coverage, only samples in the expression matrix count
+    const partial = DataProcessor.processData(mafData, undefined, { samples: ['S1', 'S2', 'S3', 'S4', 'S5', 'S6'] }, {
+      expression: outliers,
+      expressionSamples: matrix.samples
+    });
+    expect(partial.expressionSamples).toEqual(['S1', 'S2', 'S3', 'S4']);
+    expect(DataProcessor.calculateExpressionFrequencies(partial)).toEqual({ ERBB2: 2 / 4, TP53: 0 });
+  });
+
+  it('should divide gene frequencies by the samples whose panel covers the gene', () => {
+    const mockMafData = [
+      { Hugo_Symbol: 'TP53', Tumor_Sample_Barcode: 'Sample_1', Variant_Classification: 'Missense_Mutation' },
+      { Hugo_Symbol: 'TP53', Tumor_Sample_Barcode: 'Sample_2', Variant_Classification: 'Missense_Mutation' },
+      { Hugo_Symbol: 'ARID1A', Tumor_Sample_Barcode: 'Sample_1', Variant_Classification: 'Nonsense_Mutation' }
+    ];
+    const genePanels = {
+      samplePanels: { Sample_2: 'SMALL', Sample_3: 'SMALL', Sample_4: 'UNDEFINED' },
+      panels: { SMALL: ['TP53', 'KRAS'] }
+    };
+
+    const processedData = DataProcessor.processData(
+      mockMafData,
+      undefined,
+      { samples: ['Sample_1', 'Sample_2', 'Sample_3', 'Sample_4'] },
+      { genePanels }
+    );
+    expect(DataProcessor.isProfiled(processedData, 'ARID1A', 'Sample_2')).toBe(false);
+    expect(DataProcessor.isProfiled(processedData, 'ARID1A', 'Sample_4')).toBe(true);
+    expect(DataProcessor.getProfiledSampleCounts(processedData)).toEqual({ ARID1A: 2, TP53: 4 });
+    expect(DataProcessor.calculateMutationFrequencies(processedData)).toEqual({ ARID1A: 0.5, TP53: 0.5 });
+  });
+
+  it('should not count calls outside a sample\'s panel, or on not-profiled samples, as altered', () => {
+    const mockMafData = [
+      { Hugo_Symbol: 'ARID1A', Tumor_Sample_Barcode: 'Sample_1', Variant_Classification: 'Nonsense_Mutation' },
+      { Hugo_Symbol: 'ARID1A', Tumor_Sample_Barcode: 'Sample_2', Variant_Classification: 'Nonsense_Mutation' },
+      { Hugo_Symbol: 'TP53', Tumor_Sample_Barcode: 'Sample_3', Variant_Classification: 'Missense_Mutation' }
+    ];
+    const genePanels = {
+      samplePanels: { Sample_2: 'SMALL', Sample_3: NOT_PROFILED_PANEL },
+      panels: { SMALL: ['TP53'], [NOT_PROFILED_PANEL]: [] }
+    };
+
+    const processedData = DataProcessor.processData(mockMafData, undefined, undefined, { genePanels });
+    expect(DataProcessor.getProfiledSampleCounts(processedData)).toEqual({ ARID1A: 1, TP53: 2 });
+    expect(DataProcessor.calculateMutationFrequencies(processedData)).toEqual({ ARID1A: 1, TP53: 0 });
+  });
+
+  it('should test gene pairs for mutual exclusivity and co-occurrence on sample-level status', () => {
+    const samples = ['S1', 'S2', 'S3', 'S4', 'S5', 'S6', 'S7', 'S8'];
+    const row = (gene: string, sample: string) => ({
+      Hugo_Symbol: gene, Tumor_Sample_Barcode: sample, Variant_Classification: 'Missense_Mutation'
+    });
+    const mockMafData = [
+      ...['S1', 'S2', 'S3', 'S4'].map(sample => row('KRAS', sample)),
+      ...['S5', 'S6', 'S7', 'S8'].map(sample => row('EGFR', sample)),
+      // A second hit in the same sample must not count twice
+      ...['S1', 'S1', 'S2', 'S3'].map(sample => row('STK11', sample))
+    ];
+    const processedData = DataProcessor.processData(mockMafData, undefined, { samples });
+
+    expect(DataProcessor.getCoOccurrenceMatrix(processedData).STK11).toEqual({ EGFR: 0, KRAS: 3, STK11: 3 });
+
+    const interactions = DataProcessor.calculateGeneInteractions(processedData, ['KRAS', 'EGFR', 'STK11']);
+    expect(interactions.map(i => [i.gene1, i.gene2, i.tendency])).toEqual([
+      ['KRAS', 'EGFR', 'mutual-exclusivity'],
+      ['KRAS', 'STK11', 'co-occurrence'],
+      ['EGFR', 'STK11', 'mutual-exclusivity']
+    ]);
+    expect(interactions[0].counts).toEqual({ both: 0, gene1Only: 4, gene2Only: 4, neither: 0 });
+    // Haldane-corrected, so an empty cell still gives a finite value: ln(0.5² / 4.5²)
+    expect(interactions[0].logOddsRatio).toBeCloseTo(Math.log(1 / 81), 10);
+    expect(interactions[0].pValue).toBeCloseTo(1 / 70, 10);
+    expect(interactions[0].qValue).toBeCloseTo(3 / 70, 10);
+    expect(interactions[1].pValue).toBeCloseTo(1 / 14, 10);
+    expect(interactions[2].qValue).toBeCloseTo(1 / 14, 10);
+  });
+
+  it('should test gene alterations against metadata groups, one-vs-rest and pairwise', () => {
+    const samples = ['S1', 'S2', 'S3', 'S4', 'S5', 'S6', 'S7', 'S8', 'S9', 'S10', 'S11'];
+    const row = (gene: string, sample: string) => ({
+      Hugo_Symbol: gene, Tumor_Sample_Barcode: sample, Variant_Classification: 'Missense_Mutation'
+    });
+    const mockMafData = [
+      ...['S1', 'S2', 'S3', 'S4', 'S5', 'S11'].map(sample => row('TP53', sample)),
+      ...['S1', 'S6', 'S7', 'S8', 'S9'].map(sample => row('KRAS', sample))
+    ];
+    // S11 has no subtype and is left out of the tests
+    const metadata = samples.map((sample, index) => ({
+      Tumor_Sample_Barcode: sample,
+      Subtype: index < 5 ? 'Basal' : index < 10 ? 'LumA' : 'NA'
+    }));
+    const processedData = DataProcessor.processData(mockMafData, metadata, { samples });
+
+    const result = DataProcessor.calculateClinicalEnrichment(processedData, 'Subtype');
+    expect(result.groups).toEqual({ Basal: 5, LumA: 5 });
+    expect(result.frequencies.TP53).toEqual({ Basal: 1, LumA: 0 });
+
+    const [top] = result.groupwise;
+    expect(top).toMatchObject({ gene: 'TP53', group: 'Basal', groupAltered: 5, groupSize: 5, restAltered: 0, restSize: 5 });
+    expect(top.oddsRatio).toBe(Infinity);
+    expect(top.pValue).toBeCloseTo(2 / 252, 10);
+    expect(top.qValue).toBeCloseTo(4 / 252, 10);
+
+    expect(result.pairwise.map(test => [test.gene, test.group1, test.group2])).toEqual([
+      ['TP53', 'Basal', 'LumA'],
+      ['KRAS', 'Basal', 'LumA']
+    ]);
+    expect(result.pairwise[1].pValue).toBeCloseTo(52 / 252, 10);
+    expect(() => DataProcessor.calculateClinicalEnrichment(processedData, 'Missing')).toThrow('not a categorical');
+  });
+
+  it('should calculate TMB per sample from capture sizes, per sample or per panel', () => {
+    const row = (sample: string, variantClass: string) => ({
+      Hugo_Symbol: 'TP53', Tumor_Sample_Barcode: sample, Variant_Classification: variantClass
+    });
+    const rows = [
+      row('S1', 'Missense_Mutation'), row('S1', 'Nonsense_Mutation'), row('S1', 'Frame_Shift_Del'), row('S1', 'Silent'),
+      row('S2', 'Missense_Mutation'), row('S2', 'Fusion'), row('S4', 'Missense_Mutation')
+    ];
+    const genePanels = { samplePanels: { S3: 'IMPACT' }, panels: { IMPACT: ['TP53'] } };
+    const tmb = DataProcessor.calculateTmb(rows, ['S1', 'S2', 'S3'], {
+      captureSize: 1,
+      sampleCaptureSizes: { S2: 0.5 },
+      panelCaptureSizes: { IMPACT: 1.5 },
+      highThreshold: 2
+    }, genePanels);
+
+    expect(Object.keys(tmb)).toEqual(['S1', 'S2', 'S3']);
+    expect(tmb.S1).toEqual({ mutations: 3, captureSize: 1, tmb: 3, percentile: 100, high: true });
+    expect(tmb.S2).toMatchObject({ mutations: 1, captureSize: 0.5, tmb: 2, high: true });
+    expect(tmb.S2.percentile).toBeCloseTo(200 / 3, 10);
+    expect(tmb.S3).toMatchObject({ mutations: 0, captureSize: 1.5, tmb: 0, high: false });
+
+    // Tied samples share the highest rank of their value
+    const tied = DataProcessor.calculateTmb(rows, ['S2', 'S3', 'S4'], { captureSize: 1 });
+    expect([tied.S2.percentile, tied.S3.percentile, tied.S4.percentile]).toEqual([100, 100 / 3, 100]);
+
+    const allClasses = DataProcessor.calculateTmb(rows, ['S1', 'S2'], { nonSynonymousOnly: false, highPercentile: 100 });
+    expect(allClasses.S1).toMatchObject({ mutations: 4, captureSize: 50, high: true });
+    expect(allClasses.S2).toMatchObject({ mutations: 1, high: false });
+
+    const processedData = { ...DataProcessor.processData(rows), tmb };
+    expect(DataProcessor.sortSamplesByTmb(processedData)).toEqual(['S1', 'S2', 'S4']);
+  });
+
+  it('should compare alteration frequencies between the two values of a metadata field', () => {
+    const samples = ['S1', 'S2', 'S3', 'S4', 'S5', 'S6', 'S7', 'S8', 'S9', 'S10'];
+    const row = (gene: string, sample: string) => ({
+      Hugo_Symbol: gene, Tumor_Sample_Barcode: sample, Variant_Classification: 'Missense_Mutation'
+    });
+    const mockMafData = [
+      ...['S1', 'S2', 'S3', 'S4', 'S5'].map(sample => row('TP53', sample)),
+      ...['S1', 'S6', 'S7', 'S8', 'S9'].map(sample => row('KRAS', sample))
+    ];
+    const metadata = samples.map((sample, index) => ({
+      Tumor_Sample_Barcode: sample,
+      Stage: index < 5 ? 'Primary' : 'Relapse'
+    }));
+    const processedData = DataProcessor.processData(mockMafData, metadata, { samples });
+
+    const [primary, relapse] = DataProcessor.splitByMetadata(processedData, 'Stage');
+    expect([primary.name, relapse.name]).toEqual(['Primary', 'Relapse']);
+    expect(relapse.data.percentageCalculationBase).toBe(5);
+
+    const comparison = DataProcessor.compareCohorts(primary.data, relapse.data, {
+      names: [primary.name, relapse.name],
+      minAlteredSamples: 1
+    });
+    expect(comparison.cohort1).toEqual({ name: 'Primary', samples: 5 });
+    expect(comparison.genes.map(result => result.gene)).toEqual(['TP53', 'KRAS']);
+
+    const [tp53, kras] = comparison.genes;
+    expect(tp53).toMatchObject({ cohort1Altered: 5, cohort1Size: 5, cohort2Altered: 0, cohort2Frequency: 0 });
+    expect(tp53.oddsRatio).toBe(Infinity);
+    expect(tp53.pValue).toBeCloseTo(2 / 252, 10);
+    expect(tp53.qValue).toBeCloseTo(4 / 252, 10);
+    expect(kras.oddsRatio).toBeLessThan(1);
+    expect(kras.ciLower).toBeLessThan(kras.oddsRatio);
+    expect(kras.ciUpper).toBeGreaterThan(1);
+
+    expect(DataProcessor.compareCohorts(primary.data, relapse.data).genes.map(result => result.gene)).toEqual(['TP53']);
+    expect(() => DataProcessor.splitByMetadata(processedData, 'Missing')).toThrow('exactly two values');
+  });
+
+  it('should leave calls off a sample\'s panel out of both counts when comparing cohorts', () => {
+    const row = (gene: string, sample: string) => ({
+      Hugo_Symbol: gene, Tumor_Sample_Barcode: sample, Variant_Classification: 'Missense_Mutation'
+    });
+    const genePanels = { samplePanels: { S2: 'SMALL', S3: 'SMALL' }, panels: { SMALL: ['TP53'] } };
+    const cohort1 = DataProcessor.processData(
+      ['S1', 'S2', 'S3'].map(sample => row('ARID1A', sample)), undefined, undefined, { genePanels }
+    );
+    const cohort2 = DataProcessor.processData(['T1', 'T2', 'T3'].map(sample => row('TP53', sample)));
+
+    const [arid1a] = DataProcessor.compareCohorts(cohort1, cohort2, { genes: ['ARID1A'], minAlteredSamples: 1 }).genes;
+    expect(arid1a).toMatchObject({ cohort1Altered: 1, cohort1Size: 1, cohort1Frequency: 1, cohort2Altered: 0 });
+    expect(arid1a.pValue).toBeCloseTo(0.25, 10);
+    expect(arid1a.ciLower).not.toBeNaN();
+  });
+});
+describe('OncoprintVisualizer', () => {
+  const mafData = [
+    { Hugo_Symbol: 'TP53', Tumor_Sample_Barcode: 'Sample_1', Variant_Classification: 'Missense_Mutation' },
+    { Hugo_Symbol: 'TP53', Tumor_Sample_Barcode: 'Sample_2', Variant_Classification: 'Silent' },
+    { Hugo_Symbol: 'KRAS', Tumor_Sample_Barcode: 'Sample_2', Variant_Classification: 'intron_variant' },
+    { Hugo_Symbol: 'KRAS', Tumor_Sample_Barcode: 'Sample_1', Variant_Classification: "3'UTR" }
+  ];
+
+  it('should keep only non-synonymous variant classes by default and report what was dropped', async () => {
+    const visualizer = new OncoprintVisualizer(document.createElement('div'));
+    await visualizer.loadMafData(mafData);
+
+    const data = visualizer.exportData();
+    expect(data.mutations).toHaveLength(1);
+    expect(data.geneCounts).toEqual({ TP53: 1 });
+    expect(data.excludedVariantCounts).toEqual({ Silent: 1, Intron: 1, "3'UTR": 1 });
+  });
+
+  it('should plot every class when includeVariantClasses is "all"', async () => {
+    const visualizer = new OncoprintVisualizer(document.createElement('div'), { includeVariantClasses: 'all' });
+    await visualizer.loadMafData(mafData);
+
+    expect(visualizer.exportData().mutations).toHaveLength(4);
+    expect(visualizer.exportData().excludedVariantCounts).toEqual({});
+  });
+
+  it('should count TMB on the whole MAF, not just the plotted variant classes', async () => {
+    const visualizer = new OncoprintVisualizer(document.createElement('div'), {
+      tmb: { captureSize: 2, nonSynonymousOnly: false }
+    });
+    await visualizer.loadMafData(mafData);
+
+    expect(visualizer.exportData().mutations).toHaveLength(1);
+    expect(visualizer.getTmb()).toEqual({
+      Sample_1: { mutations: 2, captureSize: 2, tmb: 1, percentile: 100, high: false }
+    });
+  });
+});
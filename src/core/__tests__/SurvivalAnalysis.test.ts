@@ -0,0 +1,47 @@
+import { DataProcessor } from '../DataProcessor';
+import { SurvivalAnalysis } from '../SurvivalAnalysis';
+
+describe('SurvivalAnalysis', () => {
+  const observation = (sample: string, time: number, event: boolean) => ({ sample, time, event });
+  const groupA = [observation('A1', 1, true), observation('A2', 2, true), observation('A3', 3, false), observation('A4', 4, true)];
+  const groupB = [observation('B1', 2, false), observation('B2', 5, true), observation('B3', 6, true), observation('B4', 7, false)];
+
+  it('should estimate Kaplan-Meier survival with censoring', () => {
+    const curve = SurvivalAnalysis.kaplanMeier('A', groupA);
+    expect(curve.points.map(point => [point.time, point.survival, point.atRisk])).toEqual([
+      [1, 0.75, 4],
+      [2, 0.5, 3],
+      [3, 0.5, 2],
+      [4, 0, 1]
+    ]);
+    expect(curve.medianSurvival).toBe(2);
+    expect(curve.events).toBe(3);
+  });
+
+  it('should run a log-rank test between groups', () => {
+    const result = SurvivalAnalysis.logRankTest([groupA, groupB])!;
+    expect(result.degreesOfFreedom).toBe(1);
+    expect(result.chiSquare).toBeCloseTo(4.861682, 5);
+    expect(result.pValue).toBeCloseTo(0.0274595, 6);
+    expect(SurvivalAnalysis.logRankTest([groupA, []])).toBeUndefined();
+  });
+
+  it('should split samples with survival metadata by alteration status', () => {
+    const mafData = ['A1', 'A2', 'A3', 'A4'].map(sample => ({
+      Hugo_Symbol: 'TP53', Tumor_Sample_Barcode: sample, Variant_Classification: 'Missense_Mutation'
+    }));
+    const metadata = [...groupA, ...groupB].map(o => ({
+      Tumor_Sample_Barcode: o.sample,
+      OS_months: o.time,
+      OS_status: o.event ? '1:DECEASED' : '0:LIVING'
+    }));
+    const data = DataProcessor.processData(mafData, metadata, { samples: [...groupA, ...groupB].map(o => o.sample) });
+
+    const comparison = SurvivalAnalysis.compareByAlteration(data, ['TP53']);
+    expect(comparison.curves.map(curve => [curve.name, curve.samples, curve.events])).toEqual([
+      ['Altered', 4, 3],
+      ['Unaltered', 4, 2]
+    ]);
+    expect(comparison.logRank!.pValue).toBeCloseTo(0.0274595, 6);
+  });
+});
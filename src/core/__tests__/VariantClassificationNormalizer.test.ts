@@ -0,0 +1,45 @@
+import { VariantClassificationNormalizer } from '../VariantClassificationNormalizer';
+import { DataProcessor } from '../DataProcessor';
+import { OncoprintVisualizer } from '../OncoprintVisualizer';
+
+describe('VariantClassificationNormalizer', () => {
+  it('should map SO terms, aliases and case variants to MAF classes', () => {
+    expect(VariantClassificationNormalizer.normalize('missense_variant')).toBe('Missense_Mutation');
+    expect(VariantClassificationNormalizer.normalize('stop_gained&splice_region_variant')).toBe('Nonsense_Mutation');
+    expect(VariantClassificationNormalizer.normalize('frameshift_variant', 'INS')).toBe('Frame_Shift_Ins');
+    expect(VariantClassificationNormalizer.normalize('missense mutation')).toBe('Missense_Mutation');
+    expect(VariantClassificationNormalizer.normalize('stopgain')).toBe('Nonsense_Mutation');
+    expect(VariantClassificationNormalizer.normalize('Something_Else')).toBeUndefined();
+    expect(VariantClassificationNormalizer.normalize('Something_Else', undefined, { something_else: 'Silent' })).toBe('Silent');
+  });
+
+  it('should normalise classifications in processData and report unmapped terms', () => {
+    const result = DataProcessor.processData([
+      { Hugo_Symbol: 'TP53', Tumor_Sample_Barcode: 'S1', Variant_Classification: 'missense_variant' },
+      { Hugo_Symbol: 'KRAS', Tumor_Sample_Barcode: 'S1', Variant_Classification: 'Missense_Mutation' },
+      {
+        Hugo_Symbol: 'APC', Tumor_Sample_Barcode: 'S2', Variant_Classification: 'frameshift_variant',
+        Reference_Allele: 'A', Tumor_Seq_Allele2: '-'
+      },
+      { Hugo_Symbol: 'EGFR', Tumor_Sample_Barcode: 'S2', Variant_Classification: 'vIII' },
+      { Hugo_Symbol: 'MET', Tumor_Sample_Barcode: 'S2', Variant_Classification: 'exon14_skip' }
+    ], undefined, undefined, { classificationMap: { exon14_skip: 'Splice_Site' } });
+
+    expect(result.mutations.map(m => m.variantType)).toEqual([
+      'Missense_Mutation', 'Missense_Mutation', 'Frame_Shift_Del', 'vIII', 'Splice_Site'
+    ]);
+    expect(result.variantClassifications).toEqual({
+      mapped: { missense_variant: 'Missense_Mutation', frameshift_variant: 'Frame_Shift_Del', exon14_skip: 'Splice_Site' },
+      unmapped: { vIII: 1 }
+    });
+  });
+
+  it('should keep frameshifts from Consequence-only tables as frameshift deletions', async () => {
+    const visualizer = new OncoprintVisualizer(document.createElement('div'));
+    await visualizer.loadMafData([
+      { Hugo_Symbol: 'APC', Tumor_Sample_Barcode: 'S1', Variant_Classification: 'frameshift_variant' }
+    ]);
+
+    expect(visualizer.exportData().mutations.map(m => m.variantType)).toEqual(['Frame_Shift_Del']);
+  });
+});
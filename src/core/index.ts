@@ -1,3 +1,17 @@
 export { DataProcessor } from './DataProcessor';
-export { VariantColorManager, DEFAULT_VARIANT_COLORS } from './VariantColorManager';
+export {
+  VariantColorManager,
+  DEFAULT_VARIANT_COLORS,
+  DEFAULT_CNA_COLORS,
+  CNA_LABELS,
+  DEFAULT_EXPRESSION_COLORS,
+  EXPRESSION_LABELS
+} from './VariantColorManager';
+export {
+  VariantClassificationNormalizer,
+  MAF_VARIANT_CLASSIFICATIONS,
+  NON_SYNONYMOUS_VARIANT_CLASSIFICATIONS
+} from './VariantClassificationNormalizer';
+export { ONCOGENIC_PATHWAYS } from './OncogenicPathways';
+export { SurvivalAnalysis } from './SurvivalAnalysis';
 export { OncoprintVisualizer } from './OncoprintVisualizer';
\ No newline at end of file
@@ -0,0 +1,59 @@
+import { CnaParseOptions, CnaType, CopyNumberAlteration } from '../types';
+import { GzipDecoder } from '../utils';
+import { DelimitedTextReader } from './DelimitedTextReader';
+import { GeneMatrixReader } from './GeneMatrixReader';
+
+/**
+ * Reads gene × sample discrete copy-number matrices such as cBioPortal
+ * `data_CNA.txt` or GISTIC `all_thresholded.by_genes.txt`.
+ */
+export class CnaParser {
+  static async parseFromFile(file: File, options: CnaParseOptions = {}): Promise<CopyNumberAlteration[]> {
+    const content = GzipDecoder.decodeText(new Uint8Array(await file.arrayBuffer()));
+    return this.parseFromString(content, DelimitedTextReader.detectDelimiter(content), options);
+  }
+
+  static async parseFromUrl(url: string, options: CnaParseOptions = {}): Promise<CopyNumberAlteration[]> {
+    const response = await fetch(url);
+    if (!response.ok) {
+      throw new Error(`Failed to fetch CNA file from ${url}: ${response.statusText}`);
+    }
+    const content = GzipDecoder.decodeText(new Uint8Array(await response.arrayBuffer()));
+    return this.parseFromString(content, DelimitedTextReader.detectDelimiter(content), options);
+  }
+
+  static parseFromString(
+    content: string,
+    delimiter: string = '\t',
+    options: CnaParseOptions = {}
+  ): CopyNumberAlteration[] {
+    const { samples, rows } = GeneMatrixReader.read(content, delimiter);
+
+    const alterations: CopyNumberAlteration[] = [];
+    rows.forEach(({ gene, values }) => {
+      values.forEach((raw, index) => {
+        const value = parseFloat(raw);
+        const type = this.toCnaType(value, options.includeShallow ?? false);
+        if (type) {
+          alterations.push({ gene, sample: samples[index], type, value });
+        }
+      });
+    });
+
+    return alterations;
+  }
+
+  /**
+   * Maps a discrete call to an alteration type. cBioPortal writes -1.5 for
+   * hemizygous deep losses, which is counted as HOMDEL.
+   */
+  static toCnaType(value: number, includeShallow: boolean = false): CnaType | undefined {
+    if (isNaN(value)) return undefined;
+    if (value >= 2) return 'AMP';
+    if (value <= -1.5) return 'HOMDEL';
+    if (!includeShallow) return undefined;
+    if (value >= 1) return 'GAIN';
+    if (value <= -1) return 'HETLOSS';
+    return undefined;
+  }
+}
@@ -0,0 +1,209 @@
+export interface DelimitedRecord {
+  fields: string[];
+  line: number; // 1-based physical line on which the record starts
+}
+
+const QUOTE = 34;
+const CR = 13;
+const LF = 10;
+
+const CANDIDATE_DELIMITERS = ['\t', ',', ';'];
+const SNIFF_LENGTH = 64 * 1024;
+
+/**
+ * Incremental RFC 4180 tokenizer for tab-, comma- or semicolon-delimited text.
+ * Handles quoted fields (including embedded delimiters, newlines and `""`
+ * escapes), CRLF/CR/LF line endings and a leading BOM. Text can be pushed in
+ * arbitrary pieces; records are returned as soon as they are complete.
+ */
+export class DelimitedTextReader {
+  private readonly delimiter: number;
+  private fields: string[] = [];
+  private field = '';
+  private fieldStarted = false;
+  private inQuotes = false;
+  private quotePending = false; // Saw a quote inside a quoted field at the end of a chunk
+  private pendingCR = false;
+  private quotedCR = false; // Last character appended inside quotes was a CR
+  private atStart = true;
+  private line = 1;
+  private recordLine = 1;
+
+  constructor(delimiter: string = '\t') {
+    if (delimiter.length !== 1) {
+      throw new Error(`Delimiter must be a single character, got '${delimiter}'`);
+    }
+    this.delimiter = delimiter.charCodeAt(0);
+  }
+
+  static parse(content: string, delimiter: string = '\t'): DelimitedRecord[] {
+    const reader = new DelimitedTextReader(delimiter);
+    return [...reader.push(content), ...reader.flush()];
+  }
+
+  /**
+   * Picks the delimiter that splits the leading lines into the most consistent
+   * number of columns. Tabs win ties, so TSVs with commas in values stay TSVs.
+   */
+  static detectDelimiter(sample: string): string {
+    const head = sample.slice(0, SNIFF_LENGTH);
+    const lines = head.replace(/^\uFEFF/, '').split(/\r\n|\n|\r/);
+    if (lines.length > 1 && !/[\r\n]$/.test(head)) {
+      lines.pop(); // Last line may be cut off mid-record
+    }
+    const text = lines
+      .filter(line => line.trim() !== '' && !line.startsWith('#'))
+      .slice(0, 20)
+      .join('\n');
+
+    let best = '\t';
+    let bestScore = 0;
+    CANDIDATE_DELIMITERS.forEach(delimiter => {
+      const counts = this.parse(text, delimiter).map(record => this.trimTrailingEmpty(record.fields).length);
+      if (counts.length === 0 || counts[0] < 2) return;
+
+      const consistency = counts.filter(count => count === counts[0]).length / counts.length;
+      const score = Math.round(consistency * 100) * 1000 + counts[0];
+      if (score > bestScore) {
+        best = delimiter;
+        bestScore = score;
+      }
+    });
+
+    return best;
+  }
+
+  /**
+   * Drops empty fields left by trailing delimiters (`a\tb\t`).
+   */
+  static trimTrailingEmpty(fields: string[], minLength: number = 0): string[] {
+    let length = fields.length;
+    while (length > minLength && fields[length - 1].trim() === '') {
+      length--;
+    }
+    return length === fields.length ? fields : fields.slice(0, length);
+  }
+
+  push(text: string): DelimitedRecord[] {
+    const records: DelimitedRecord[] = [];
+    let i = 0;
+
+    if (this.atStart && text.length > 0) {
+      this.atStart = false;
+      if (text.charCodeAt(0) === 0xfeff) i = 1;
+    }
+
+    const n = text.length;
+    while (i < n) {
+      const c = text.charCodeAt(i);
+
+      if (this.pendingCR) {
+        this.pendingCR = false;
+        if (c === LF) {
+          i++;
+          continue;
+        }
+      }
+
+      if (this.quotePending) {
+        this.quotePending = false;
+        if (c === QUOTE) {
+          this.field += '"';
+          i++;
+          continue;
+        }
+        this.inQuotes = false;
+      }
+
+      if (this.inQuotes) {
+        const quote = text.indexOf('"', i);
+        const end = quote === -1 ? n : quote;
+        this.appendQuoted(text, i, end);
+        if (quote === -1) {
+          i = n;
+        } else if (quote + 1 >= n) {
+          this.quotePending = true;
+          i = n;
+        } else if (text.charCodeAt(quote + 1) === QUOTE) {
+          this.field += '"';
+          i = quote + 2;
+        } else {
+          this.inQuotes = false;
+          i = quote + 1;
+        }
+        continue;
+      }
+
+      if (c === QUOTE && !this.fieldStarted) {
+        this.inQuotes = true;
+        this.fieldStarted = true;
+        i++;
+        continue;
+      }
+
+      let j = i;
+      while (j < n) {
+        const d = text.charCodeAt(j);
+        if (d === this.delimiter || d === CR || d === LF) break;
+        j++;
+      }
+      if (j > i) {
+        this.field += text.slice(i, j);
+        this.fieldStarted = true;
+      }
+      if (j === n) break;
+
+      const d = text.charCodeAt(j);
+      if (d === this.delimiter) {
+        this.endField();
+      } else {
+        this.endRecord(records);
+        this.line++;
+        this.recordLine = this.line;
+        this.pendingCR = d === CR;
+      }
+      i = j + 1;
+    }
+
+    return records;
+  }
+
+  flush(): DelimitedRecord[] {
+    const records: DelimitedRecord[] = [];
+    // An unterminated quote keeps whatever was read, rather than losing the record
+    this.inQuotes = false;
+    this.quotePending = false;
+    if (this.fieldStarted || this.fields.length > 0) {
+      this.endRecord(records);
+    }
+    return records;
+  }
+
+  private appendQuoted(text: string, start: number, end: number): void {
+    const chunk = text.slice(start, end);
+    if (chunk.length === 0) return;
+    this.field += chunk;
+    for (let k = 0; k < chunk.length; k++) {
+      const c = chunk.charCodeAt(k);
+      if (c === CR || (c === LF && !this.quotedCR)) {
+        this.line++;
+      }
+      this.quotedCR = c === CR;
+    }
+  }
+
+  private endField(): void {
+    this.fields.push(this.field);
+    this.field = '';
+    this.fieldStarted = false;
+  }
+
+  private endRecord(records: DelimitedRecord[]): void {
+    this.endField();
+    // Blank lines carry no data
+    if (this.fields.length > 1 || this.fields[0] !== '') {
+      records.push({ fields: this.fields, line: this.recordLine });
+    }
+    this.fields = [];
+  }
+}
@@ -0,0 +1,44 @@
+import { ExpressionMatrix } from '../types';
+import { GzipDecoder } from '../utils';
+import { DelimitedTextReader } from './DelimitedTextReader';
+import { GeneMatrixReader } from './GeneMatrixReader';
+
+/**
+ * Reads gene × sample numeric matrices such as cBioPortal
+ * `data_mrna_seq_v2_rsem.txt` or RPPA/proteomics tables.
+ */
+export class ExpressionParser {
+  static async parseFromFile(file: File): Promise<ExpressionMatrix> {
+    const content = GzipDecoder.decodeText(new Uint8Array(await file.arrayBuffer()));
+    return this.parseFromString(content, DelimitedTextReader.detectDelimiter(content));
+  }
+
+  static async parseFromUrl(url: string): Promise<ExpressionMatrix> {
+    const response = await fetch(url);
+    if (!response.ok) {
+      throw new Error(`Failed to fetch expression file from ${url}: ${response.statusText}`);
+    }
+    const content = GzipDecoder.decodeText(new Uint8Array(await response.arrayBuffer()));
+    return this.parseFromString(content, DelimitedTextReader.detectDelimiter(content));
+  }
+
+  static parseFromString(content: string, delimiter: string = '\t'): ExpressionMatrix {
+    const { samples, rows } = GeneMatrixReader.read(content, delimiter);
+
+    const values: ExpressionMatrix['values'] = {};
+    rows.forEach(({ gene, values: raw }) => {
+      // Tables keyed by symbol can repeat a gene for different Entrez IDs; keep the first row
+      if (values[gene]) return;
+
+      values[gene] = {};
+      raw.forEach((value, index) => {
+        const number = parseFloat(value);
+        if (!isNaN(number) && isFinite(number)) {
+          values[gene][samples[index]] = number;
+        }
+      });
+    });
+
+    return { genes: Object.keys(values), samples, values };
+  }
+}
@@ -0,0 +1,119 @@
+import { FusionParseOptions, MafData } from '../types';
+import { GzipDecoder } from '../utils';
+import { DelimitedTextReader } from './DelimitedTextReader';
+
+// Columns read from each caller's output: partner genes, breakpoints and an optional sample column
+const FORMATS = {
+  'STAR-Fusion': {
+    marker: '#FusionName',
+    gene1: 'LeftGene',
+    gene2: 'RightGene',
+    breakpoint1: 'LeftBreakpoint',
+    breakpoint2: 'RightBreakpoint'
+  },
+  Arriba: {
+    marker: '#gene1',
+    gene1: '#gene1',
+    gene2: 'gene2',
+    breakpoint1: 'breakpoint1',
+    breakpoint2: 'breakpoint2'
+  }
+};
+
+const SAMPLE_COLUMNS = ['Tumor_Sample_Barcode', 'Sample', 'sample'];
+
+/**
+ * Reads STAR-Fusion (`star-fusion.fusion_predictions.tsv`) and Arriba
+ * (`fusions.tsv`) calls. Each fusion becomes one `Fusion` row on each partner
+ * gene, so it can be loaded alongside MAF data with `loadMafData`.
+ */
+export class FusionParser {
+  static async parseFromFile(file: File, options: FusionParseOptions = {}): Promise<MafData[]> {
+    const content = GzipDecoder.decodeText(new Uint8Array(await file.arrayBuffer()));
+    // Per-sample caller output carries no sample name, so fall back to the file name
+    const sampleName = options.sampleName ?? file.name.replace(/\.(tsv|txt)(\.gz)?$/i, '');
+    return this.parseFromString(content, { ...options, sampleName });
+  }
+
+  static parseFromString(content: string, options: FusionParseOptions = {}): MafData[] {
+    const records = DelimitedTextReader.parse(content, '\t');
+    if (records.length === 0) {
+      throw new Error('File is empty');
+    }
+
+    const headers = DelimitedTextReader.trimTrailingEmpty(records[0].fields).map(h => h.trim());
+    const format = Object.values(FORMATS).find(candidate => headers[0] === candidate.marker);
+    if (!format) {
+      throw new Error('Unrecognised fusion file: expected STAR-Fusion or Arriba output');
+    }
+
+    const column = (name: string) => headers.indexOf(name);
+    const sampleColumn = SAMPLE_COLUMNS.map(column).find(index => index !== -1);
+    if (sampleColumn === undefined && !options.sampleName) {
+      throw new Error('Fusion file has no sample column; pass options.sampleName');
+    }
+
+    const data: MafData[] = [];
+    const seen = new Set<string>();
+
+    for (let i = 1; i < records.length; i++) {
+      const values = records[i].fields;
+      const gene1 = this.toGeneSymbol(values[column(format.gene1)]);
+      const gene2 = this.toGeneSymbol(values[column(format.gene2)]);
+      const sample = sampleColumn !== undefined ? values[sampleColumn]?.trim() : options.sampleName;
+      if (!gene1 || !gene2 || !sample) continue;
+
+      // Callers report one line per breakpoint pair; the first (best supported) one is kept
+      const fusionName = `${gene1}::${gene2}`;
+      if (seen.has(`${sample}\t${fusionName}`)) continue;
+      seen.add(`${sample}\t${fusionName}`);
+
+      const breakpoint1 = values[column(format.breakpoint1)]?.trim() || undefined;
+      const breakpoint2 = values[column(format.breakpoint2)]?.trim() || undefined;
+      data.push(this.toRow(gene1, gene2, sample, fusionName, breakpoint1));
+      if (gene2 !== gene1) {
+        data.push(this.toRow(gene2, gene1, sample, fusionName, breakpoint2));
+      }
+    }
+
+    return data;
+  }
+
+  private static toRow(
+    gene: string,
+    partner: string,
+    sample: string,
+    fusionName: string,
+    breakpoint?: string
+  ): MafData {
+    const row: MafData = {
+      Hugo_Symbol: gene,
+      Tumor_Sample_Barcode: sample,
+      Variant_Classification: 'Fusion',
+      Protein_Change: `${fusionName} fusion`,
+      Fusion_Name: fusionName,
+      Fusion_Partner: partner
+    };
+
+    if (breakpoint) {
+      row.Fusion_Breakpoint = breakpoint;
+      const [chromosome, position] = breakpoint.split(':');
+      if (position && !isNaN(Number(position))) {
+        row.Chromosome = chromosome;
+        row.Start_Position = Number(position);
+        row.End_Position = Number(position);
+      }
+    }
+
+    return row;
+  }
+
+  /**
+   * STAR-Fusion writes `BCR^ENSG00000186716.21`; Arriba writes `BCR` or, for
+   * intergenic breakpoints, the flanking genes as `LINC00598(13459),RPL21(2024)`.
+   */
+  private static toGeneSymbol(value?: string): string | undefined {
+    const gene = value?.split(/[\^,(]/)[0].trim();
+    return gene && gene !== '.' ? gene : undefined;
+  }
+}
@@ -0,0 +1,47 @@
+import { DelimitedTextReader } from './DelimitedTextReader';
+
+// Columns naming the gene, in priority order (cBioPortal, GISTIC, generic)
+const GENE_COLUMNS = ['Hugo_Symbol', 'Gene Symbol', 'Gene_Symbol', 'Gene'];
+
+// Annotation columns that sit between the gene and the sample columns
+const ANNOTATION_COLUMNS = ['Entrez_Gene_Id', 'Locus ID', 'Locus_ID', 'Cytoband'];
+
+export interface GeneMatrixRow {
+  gene: string;
+  values: string[]; // One raw value per sample, in `samples` order
+}
+
+/**
+ * Splits a gene × sample table (cBioPortal `data_*.txt`, GISTIC by-gene tables)
+ * into sample names and per-gene rows, skipping `#` comment lines and the
+ * annotation columns that sit before the samples.
+ */
+export class GeneMatrixReader {
+  static read(content: string, delimiter: string = '\t'): { samples: string[]; rows: GeneMatrixRow[] } {
+    const records = DelimitedTextReader.parse(content, delimiter)
+      .filter(record => !record.fields[0].startsWith('#'));
+    if (records.length === 0) {
+      throw new Error('File is empty');
+    }
+
+    const headers = DelimitedTextReader.trimTrailingEmpty(records[0].fields).map(h => h.trim());
+    const geneColumn = GENE_COLUMNS.map(name => headers.indexOf(name)).find(index => index !== -1) ?? 0;
+    const sampleColumns = headers
+      .map((header, index) => ({ header, index }))
+      .filter(({ header, index }) => index !== geneColumn && header !== '' && !ANNOTATION_COLUMNS.includes(header));
+
+    if (sampleColumns.length === 0) {
+      throw new Error('File must contain at least one sample column');
+    }
+
+    const rows: GeneMatrixRow[] = [];
+    for (let i = 1; i < records.length; i++) {
+      const fields = records[i].fields;
+      const gene = fields[geneColumn]?.trim();
+      if (!gene) continue;
+      rows.push({ gene, values: sampleColumns.map(({ index }) => fields[index] ?? '') });
+    }
+
+    return { samples: sampleColumns.map(({ header }) => header), rows };
+  }
+}
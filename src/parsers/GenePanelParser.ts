@@ -0,0 +1,75 @@
+import { GenePanel } from '../types';
+import { GzipDecoder } from '../utils';
+import { DelimitedTextReader } from './DelimitedTextReader';
+
+// Panel matrix entries meaning the whole exome or genome was sequenced
+const WHOLE_GENOME_PANELS = ['WES', 'WXS', 'WGS'];
+
+// Panel ID given to samples marked `NA` (not profiled); it covers no genes
+export const NOT_PROFILED_PANEL = 'NA';
+
+/**
+ * Reads cBioPortal gene-panel files: the sample → panel matrix
+ * (`data_gene_panel_matrix.txt`) and panel definitions (`data_gene_panel_*.txt`
+ * with `stable_id:` and `gene_list:` lines). Plain one-gene-per-line lists are
+ * accepted as panel definitions too.
+ */
+export class GenePanelParser {
+  static async parsePanelFromFile(file: File): Promise<GenePanel> {
+    const content = GzipDecoder.decodeText(new Uint8Array(await file.arrayBuffer()));
+    return this.parsePanelFromString(content, file.name.replace(/\.(txt|tsv|list)(\.gz)?$/i, ''));
+  }
+
+  static async parseSamplePanelsFromFile(file: File): Promise<Record<string, string>> {
+    const content = GzipDecoder.decodeText(new Uint8Array(await file.arrayBuffer()));
+    return this.parseSamplePanelsFromString(content, DelimitedTextReader.detectDelimiter(content));
+  }
+
+  static parsePanelFromString(content: string, id?: string): GenePanel {
+    const lines = content.split(/\r?\n/).map(line => line.trim()).filter(line => line && !line.startsWith('#'));
+    const field = (key: string) => lines.find(line => line.startsWith(`${key}:`))?.slice(key.length + 1).trim();
+
+    const stableId = field('stable_id');
+    const geneList = field('gene_list');
+    const genes = geneList !== undefined
+      ? geneList.split(/[\t,\s]+/)
+      : lines.map(line => line.split(/[\t,\s]/)[0]);
+
+    const panelId = stableId || id;
+    if (!panelId) {
+      throw new Error('Gene panel has no stable_id; pass a panel ID');
+    }
+
+    return { id: panelId, genes: Array.from(new Set(genes.filter(Boolean))) };
+  }
+
+  /**
+   * Maps samples to the panel their mutations were called on. The `mutations`
+   * column is used when present, otherwise the first column after the sample.
+   * Whole-exome/genome samples are left out, as every gene was profiled;
+   * `NA` samples map to {@link NOT_PROFILED_PANEL}.
+   */
+  static parseSamplePanelsFromString(content: string, delimiter: string = '\t'): Record<string, string> {
+    const records = DelimitedTextReader.parse(content, delimiter)
+      .filter(record => !record.fields[0].startsWith('#'));
+    if (records.length === 0) {
+      throw new Error('File is empty');
+    }
+
+    const headers = DelimitedTextReader.trimTrailingEmpty(records[0].fields).map(h => h.trim());
+    if (headers.length < 2) {
+      throw new Error('Gene panel matrix needs a sample column and a panel column');
+    }
+    const panelColumn = headers.indexOf('mutations') !== -1 ? headers.indexOf('mutations') : 1;
+
+    const samplePanels: Record<string, string> = {};
+    for (let i = 1; i < records.length; i++) {
+      const sample = records[i].fields[0]?.trim();
+      const panel = records[i].fields[panelColumn]?.trim();
+      if (!sample || !panel || WHOLE_GENOME_PANELS.includes(panel.toUpperCase())) continue;
+      samplePanels[sample] = panel.toUpperCase() === NOT_PROFILED_PANEL ? NOT_PROFILED_PANEL : panel;
+    }
+
+    return samplePanels;
+  }
+}
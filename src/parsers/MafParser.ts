@@ -1,11 +1,24 @@
-import { MafData, ValidationResult, ValidationError, ValidationWarning } from '../types';
+import {
+  MafData,
+  MafHeader,
+  MafParseOptions,
+  MafParseResult,
+  ParseDiagnostics,
+  ValidationResult,
+  ValidationError,
+  ValidationWarning
+} from '../types';
+import { GzipDecoder } from '../utils';
+import { DelimitedTextReader, DelimitedRecord } from './DelimitedTextReader';
+
+const REQUIRED_COLUMNS = [
+  'Hugo_Symbol',
+  'Tumor_Sample_Barcode',
+  'Variant_Classification'
+];
 
 export class MafParser {
-  private static readonly REQUIRED_COLUMNS = [
-    'Hugo_Symbol',
-    'Tumor_Sample_Barcode',
-    'Variant_Classification'
-  ];
+  private static readonly REQUIRED_COLUMNS = REQUIRED_COLUMNS;
 
   private static readonly OPTIONAL_COLUMNS = [
     'Protein_Change',
@@ -14,63 +27,207 @@ export class MafParser {
     'End_Position'
   ];
 
-  static async parseFromFile(file: File): Promise<MafData[]> {
-    const content = await this.readFileContent(file);
-    return this.parseFromString(content, this.detectDelimiter(content));
+  // Core columns of the TCGA MAF specification (2.x)
+  private static readonly TCGA_SPEC_COLUMNS = [
+    'Hugo_Symbol', 'Entrez_Gene_Id', 'Center', 'NCBI_Build', 'Chromosome',
+    'Start_Position', 'End_Position', 'Strand', 'Variant_Classification', 'Variant_Type',
+    'Reference_Allele', 'Tumor_Seq_Allele1', 'Tumor_Seq_Allele2', 'dbSNP_RS', 'dbSNP_Val_Status',
+    'Tumor_Sample_Barcode', 'Matched_Norm_Sample_Barcode', 'Match_Norm_Seq_Allele1',
+    'Match_Norm_Seq_Allele2', 'Tumor_Validation_Allele1', 'Tumor_Validation_Allele2',
+    'Match_Norm_Validation_Allele1', 'Match_Norm_Validation_Allele2', 'Verification_Status',
+    'Validation_Status', 'Mutation_Status', 'Sequencing_Phase', 'Sequence_Source',
+    'Validation_Method', 'Score', 'BAM_File', 'Sequencer', 'Tumor_Sample_UUID',
+    'Matched_Norm_Sample_UUID'
+  ];
+
+  // GDC MAFs (`#version gdc-x.y.z`) extend the TCGA core with VEP annotation and read counts
+  private static readonly GDC_SPEC_COLUMNS = [
+    ...MafParser.TCGA_SPEC_COLUMNS,
+    'HGVSc', 'HGVSp', 'HGVSp_Short', 'Transcript_ID', 'Exon_Number',
+    't_depth', 't_ref_count', 't_alt_count', 'n_depth', 'n_ref_count', 'n_alt_count',
+    'Allele', 'Gene', 'Feature', 'Feature_type', 'Consequence', 'IMPACT'
+  ];
+
+  // Alternative names accepted for each MAF column when the MAF name itself is absent, in priority order
+  private static readonly COLUMN_ALIASES: Record<string, string[]> = {
+    Hugo_Symbol: ['Gene_Symbol', 'Gene', 'Symbol', 'Gene_Name', 'Hugo_Gene'],
+    Tumor_Sample_Barcode: ['Sample_ID', 'Sample', 'SampleID', 'Tumor_Sample_ID', 'Sample_Barcode', 'Tumor_Sample'],
+    Variant_Classification: ['Variant_Class', 'Mutation_Type', 'Consequence', 'Variant_Effect'],
+    Protein_Change: ['HGVSp_Short', 'Amino_Acid_Change', 'AAChange', 'Protein_Alteration', 'HGVSp'],
+    Chromosome: ['Chrom', 'Chr', 'Chromosome_Name'],
+    Start_Position: ['Start', 'Start_Pos', 'Position', 'Pos'],
+    End_Position: ['End', 'End_Pos']
+  };
+
+  static async parseFromFile(file: File, options: MafParseOptions = {}): Promise<MafData[]> {
+    return (await this.parse(file, options)).data;
   }
 
-  static parseFromString(content: string, delimiter: string = '\t'): MafData[] {
-    const lines = content.trim().split('\n');
-    if (lines.length === 0) {
-      throw new Error('File is empty');
-    }
+  static parseFromString(content: string, delimiter: string = '\t', options: MafParseOptions = {}): MafData[] {
+    return this.parseText(content, options, delimiter).data;
+  }
 
-    const headers = lines[0].split(delimiter).map(h => h.trim());
-    const data: MafData[] = [];
+  static async parseFromStream(
+    stream: ReadableStream<Uint8Array>,
+    options: MafParseOptions = {}
+  ): Promise<MafData[]> {
+    return (await this.parse(stream, options)).data;
+  }
 
-    for (let i = 1; i < lines.length; i++) {
-      const values = lines[i].split(delimiter);
-      if (values.length !== headers.length) {
-        // console.warn(`Line ${i + 1} has ${values.length} columns but expected ${headers.length}`);
-        continue;
-      }
+  /**
+   * Parses a MAF from text, a File or a byte stream, returning the rows together
+   * with the `#` preamble (spec version and annotations) that precedes the header.
+   */
+  static async parse(
+    source: string | Blob | ReadableStream<Uint8Array>,
+    options: MafParseOptions = {}
+  ): Promise<MafParseResult> {
+    if (typeof source === 'string') {
+      return this.parseText(source, options);
+    }
 
-      const row: any = {};
-      headers.forEach((header, index) => {
-        const value = values[index]?.trim();
-        if (value && value !== '') {
-          if (header === 'Start_Position' || header === 'End_Position') {
-            const numValue = parseInt(value, 10);
-            if (!isNaN(numValue)) {
-              row[header] = numValue;
-            }
-          } else {
-            row[header] = value;
-          }
-        }
-      });
+    if (source instanceof Blob) {
+      // Stream when the runtime supports it so large MAFs never sit in memory as one string
+      if (typeof source.stream !== 'function') {
+        return this.parseText(await this.readFileContent(source), options);
+      }
+      options = { totalBytes: source.size, ...options };
+      source = source.stream();
+    }
 
-      if (row.Hugo_Symbol && row.Tumor_Sample_Barcode && row.Variant_Classification) {
-        data.push(row as MafData);
+    const parser = this.createTextParser(options);
+    const data: MafData[] = [];
+    for await (const rows of this.streamWith(parser, source, options)) {
+      for (const row of rows) {
+        data.push(row);
       }
     }
+    return { data, header: parser.getHeader(), diagnostics: parser.getDiagnostics() };
+  }
 
-    return data;
+  /**
+   * Parses a MAF stream chunk by chunk, yielding the rows completed by each chunk.
+   * Only one chunk plus a partial line is held in memory at any time.
+   */
+  static streamRows(
+    stream: ReadableStream<Uint8Array>,
+    options: MafParseOptions = {}
+  ): AsyncGenerator<MafData[], void, undefined> {
+    return this.streamWith(this.createTextParser(options), stream, options);
   }
 
-  static async parseFromUrl(url: string): Promise<MafData[]> {
-    const response = await fetch(url);
+  static async parseFromUrl(url: string, options: MafParseOptions = {}): Promise<MafData[]> {
+    const response = await fetch(url, { signal: options.signal });
     if (!response.ok) {
       throw new Error(`Failed to fetch MAF file from ${url}: ${response.statusText}`);
     }
-    const content = await response.text();
-    return this.parseFromString(content, this.detectDelimiter(content));
+
+    if (response.body) {
+      const contentLength = Number(response.headers.get('Content-Length'));
+      return this.parseFromStream(response.body, {
+        totalBytes: contentLength > 0 ? contentLength : undefined,
+        ...options
+      });
+    }
+
+    const content = GzipDecoder.decodeText(new Uint8Array(await response.arrayBuffer()));
+    return this.parseText(content, options).data;
+  }
+
+  /**
+   * Works out which source column feeds each MAF column. Explicit mappings win;
+   * built-in aliases (and case-only differences) only fill MAF columns that are
+   * otherwise absent. Returns the effective name per source column (null when a
+   * column is displaced by an explicit mapping) and the renames that were applied.
+   */
+  static resolveColumnMapping(
+    columns: string[],
+    mapping: Record<string, string> = {},
+    useDefaultAliases: boolean = true
+  ): { names: Array<string | null>; applied: Record<string, string> } {
+    const names: Array<string | null> = [...columns];
+    const applied: Record<string, string> = {};
+
+    Object.entries(mapping).forEach(([source, target]) => {
+      const index = columns.indexOf(source);
+      if (index === -1 || source === target) return;
+      names.forEach((name, i) => {
+        if (name === target) names[i] = null;
+      });
+      names[index] = target;
+      applied[target] = source;
+    });
+
+    if (useDefaultAliases) {
+      Object.entries(this.COLUMN_ALIASES).forEach(([target, aliases]) => {
+        if (names.includes(target)) return;
+
+        for (const candidate of [target, ...aliases].map(alias => alias.toLowerCase())) {
+          const index = names.findIndex((name, i) =>
+            name !== null && name === columns[i] && name.toLowerCase() === candidate
+          );
+          if (index !== -1) {
+            names[index] = target;
+            applied[target] = columns[index];
+            break;
+          }
+        }
+      });
+    }
+
+    return { names, applied };
+  }
+
+  /**
+   * Returns the columns the declared MAF version requires, or undefined when the
+   * version is not one we know the layout of.
+   */
+  static getSpecColumns(version: string): string[] | undefined {
+    if (/^gdc-/i.test(version)) return [...this.GDC_SPEC_COLUMNS];
+    if (/^2\.\d+/.test(version)) return [...this.TCGA_SPEC_COLUMNS];
+    return undefined;
   }
 
-  static validateMafData(data: MafData[]): ValidationResult {
+  static validateMafData(data: MafData[], header?: MafHeader): ValidationResult {
     const errors: ValidationError[] = [];
     const warnings: ValidationWarning[] = [];
 
+    const presentColumns = new Set(header ? [...header.columns, ...Object.keys(header.columnMapping)] : []);
+
+    if (header?.version) {
+      const specColumns = this.getSpecColumns(header.version);
+      if (!specColumns) {
+        warnings.push({
+          type: 'data_quality',
+          message: `Unrecognised MAF version '${header.version}'; only the core columns were checked`
+        });
+      } else {
+        specColumns
+          .filter(column => !presentColumns.has(column) && !this.REQUIRED_COLUMNS.includes(column))
+          .forEach(column => {
+            warnings.push({
+              type: 'missing_column',
+              message: `Column '${column}' expected by MAF version ${header.version} is missing`,
+              column
+            });
+          });
+      }
+    }
+
+    // A header missing required columns explains an empty result better than 'no data'
+    if (header && header.columns.length > 0) {
+      this.REQUIRED_COLUMNS.filter(column => !presentColumns.has(column)).forEach(column => {
+        errors.push({
+          type: 'missing_column',
+          message: `Required column '${column}' is missing`,
+          column
+        });
+      });
+      if (errors.length > 0) {
+        return { isValid: false, errors, warnings, columnMapping: header.columnMapping };
+      }
+    }
+
     if (data.length === 0) {
       errors.push({
         type: 'empty_file',
@@ -143,24 +300,319 @@ export class MafParser {
     return {
       isValid: errors.length === 0,
       errors,
-      warnings
+      warnings,
+      columnMapping: header?.columnMapping
     };
   }
 
-  private static async readFileContent(file: File): Promise<string> {
+  private static async readFileContent(file: Blob): Promise<string> {
     return new Promise((resolve, reject) => {
       const reader = new FileReader();
-      reader.onload = () => resolve(reader.result as string);
+      reader.onload = () => {
+        try {
+          resolve(GzipDecoder.decodeText(new Uint8Array(reader.result as ArrayBuffer)));
+        } catch (error) {
+          reject(error);
+        }
+      };
       reader.onerror = () => reject(new Error('Failed to read file'));
-      reader.readAsText(file);
+      reader.readAsArrayBuffer(file);
     });
   }
 
-  private static detectDelimiter(content: string): string {
-    const firstLine = content.split('\n')[0];
-    const tabCount = (firstLine.match(/\t/g) || []).length;
-    const commaCount = (firstLine.match(/,/g) || []).length;
-    
-    return tabCount > commaCount ? '\t' : ',';
+  private static parseText(content: string, options: MafParseOptions, delimiter?: string): MafParseResult {
+    const parser = this.createTextParser(options, delimiter);
+    const data = [...parser.push(content), ...parser.finish()];
+    if (!parser.hasHeader()) {
+      throw new Error('File is empty');
+    }
+    return { data, header: parser.getHeader(), diagnostics: parser.getDiagnostics() };
+  }
+
+  private static async *streamWith(
+    parser: MafTextParser,
+    stream: ReadableStream<Uint8Array>,
+    options: MafParseOptions
+  ): AsyncGenerator<MafData[], void, undefined> {
+    const { signal, onProgress, totalBytes } = options;
+    const reader = stream.getReader();
+    const decoder = new TextDecoder('utf-8');
+    let bytesRead = 0;
+    let rowsParsed = 0;
+    let finished = false;
+
+    // Progress is reported against the bytes pulled from the source, i.e. compressed bytes for .gz
+    const readChunks = async function* (): AsyncGenerator<Uint8Array, void, undefined> {
+      for (;;) {
+        MafParser.throwIfAborted(signal);
+        const { done, value } = await reader.read();
+        if (done) return;
+        bytesRead += value.byteLength;
+        yield value;
+      }
+    };
+
+    try {
+      for await (const value of GzipDecoder.decompressChunks(readChunks())) {
+        const rows = parser.push(decoder.decode(value, { stream: true }));
+        rowsParsed += rows.length;
+        onProgress?.({ bytesRead, totalBytes, rowsParsed });
+        if (rows.length > 0) {
+          yield rows;
+        }
+      }
+
+      this.throwIfAborted(signal);
+      const rows = [...parser.push(decoder.decode()), ...parser.finish()];
+      rowsParsed += rows.length;
+      finished = true;
+      onProgress?.({ bytesRead, totalBytes, rowsParsed });
+
+      if (!parser.hasHeader()) {
+        throw new Error('File is empty');
+      }
+      if (rows.length > 0) {
+        yield rows;
+      }
+    } finally {
+      // Stop pulling from the source if the consumer bailed out or the parse was aborted
+      if (!finished) {
+        await reader.cancel().catch(() => undefined);
+      }
+      reader.releaseLock();
+    }
+  }
+
+  private static createTextParser(options: MafParseOptions, delimiter?: string): MafTextParser {
+    const projection = options.columns && options.columns.length > 0
+      ? new Set([...this.REQUIRED_COLUMNS, ...options.columns])
+      : null;
+    const diagnostics = options.diagnostics ? new DiagnosticsCollector(options.maxDiagnostics ?? 100) : null;
+    const resolveColumns = (columns: string[]) =>
+      this.resolveColumnMapping(columns, options.columnMapping, options.useDefaultAliases !== false);
+    return new MafTextParser(projection, diagnostics, resolveColumns, delimiter);
+  }
+
+  private static throwIfAborted(signal?: AbortSignal): void {
+    if (signal?.aborted) {
+      // Same name as fetch's abort errors; DOMException is not a global on Node 16
+      const error = new Error('MAF parsing was aborted');
+      error.name = 'AbortError';
+      throw error;
+    }
+  }
+}
+
+/**
+ * Incremental MAF text parser: collects the `#` preamble, sniffs the delimiter
+ * from the first lines after it and turns each following record into a row.
+ */
+class MafTextParser {
+  private tokenizer: DelimitedTextReader | null = null;
+  private pending = '';
+  private headers: string[] | null = null;
+  private fieldNames: Array<string | null> = []; // Header names after column mapping
+  private columnMapping: Record<string, string> = {};
+  private readonly comments: string[] = [];
+  private preambleLines = 0; // Offsets tokenizer line numbers back to physical file lines
+
+  constructor(
+    private readonly projection: Set<string> | null,
+    private readonly diagnostics: DiagnosticsCollector | null,
+    private readonly resolveColumns: (columns: string[]) => { names: Array<string | null>; applied: Record<string, string> },
+    private readonly delimiter?: string
+  ) {}
+
+  push(text: string): MafData[] {
+    if (!this.tokenizer) {
+      this.pending += text;
+      if (!this.consumePreamble(false)) return [];
+      text = this.pending;
+      this.pending = '';
+    }
+    return this.parseRecords(this.tokenizer!.push(text));
+  }
+
+  finish(): MafData[] {
+    if (!this.tokenizer) {
+      this.consumePreamble(true);
+      const rows = this.parseRecords(this.tokenizer!.push(this.pending));
+      this.pending = '';
+      return [...rows, ...this.parseRecords(this.tokenizer!.flush())];
+    }
+    return this.parseRecords(this.tokenizer.flush());
+  }
+
+  getDiagnostics(): ParseDiagnostics | undefined {
+    return this.diagnostics?.toDiagnostics();
+  }
+
+  hasHeader(): boolean {
+    return this.headers !== null;
+  }
+
+  getHeader(): MafHeader {
+    const annotations: Record<string, string> = {};
+    let version: string | undefined;
+
+    this.comments.forEach(comment => {
+      const match = comment.match(/^(\S+)\s+(.*)$/);
+      if (!match) return;
+      const [, key, value] = match;
+      if (key === 'version') {
+        version = value.trim();
+      } else {
+        annotations[key] = value.trim();
+      }
+    });
+
+    return {
+      version,
+      annotations,
+      comments: [...this.comments],
+      columns: this.headers ? [...this.headers] : [],
+      columnMapping: { ...this.columnMapping }
+    };
+  }
+
+  /**
+   * Moves leading `#` and blank lines out of the pending text. Returns true once
+   * the first data line has been reached and the tokenizer is ready.
+   */
+  private consumePreamble(isLast: boolean): boolean {
+    for (;;) {
+      const newline = this.pending.indexOf('\n');
+      if (newline === -1 && !isLast) return false;
+
+      const line = (newline === -1 ? this.pending : this.pending.slice(0, newline)).replace(/^\uFEFF/, '').replace(/\r$/, '');
+      if (line.startsWith('#')) {
+        this.comments.push(line.slice(1));
+      } else if (line.trim() !== '' || newline === -1) {
+        break;
+      }
+      if (newline === -1) {
+        this.pending = '';
+        break;
+      }
+      this.pending = this.pending.slice(newline + 1);
+      this.preambleLines++;
+    }
+
+    // Sniff from everything buffered so far, which is at least the header line
+    this.tokenizer = new DelimitedTextReader(this.delimiter ?? DelimitedTextReader.detectDelimiter(this.pending));
+    return true;
+  }
+
+  private parseRecords(records: DelimitedRecord[]): MafData[] {
+    const rows: MafData[] = [];
+    for (const record of records) {
+      if (this.headers === null) {
+        this.headers = DelimitedTextReader.trimTrailingEmpty(record.fields).map(h => h.trim());
+        const { names, applied } = this.resolveColumns(this.headers);
+        this.fieldNames = names;
+        this.columnMapping = applied;
+        continue;
+      }
+      const row = this.parseRecord(record.fields, this.fieldNames, record.line + this.preambleLines);
+      if (row) {
+        rows.push(row);
+      }
+    }
+    return rows;
+  }
+
+  private parseRecord(fields: string[], headers: Array<string | null>, line: number): MafData | null {
+    this.diagnostics?.countRow();
+
+    const values = DelimitedTextReader.trimTrailingEmpty(fields, headers.length);
+    if (values.length !== headers.length) {
+      this.diagnostics?.reject({
+        type: 'invalid_format',
+        message: `Line ${line} has ${values.length} columns but expected ${headers.length}`,
+        line
+      });
+      return null;
+    }
+
+    const row: any = {};
+    headers.forEach((header, index) => {
+      if (header === null || (this.projection && !this.projection.has(header))) return;
+
+      const value = values[index]?.trim();
+      if (value && value !== '') {
+        if (header === 'Start_Position' || header === 'End_Position') {
+          const numValue = parseInt(value, 10);
+          if (!isNaN(numValue)) {
+            row[header] = numValue;
+          } else {
+            this.diagnostics?.warn({
+              type: 'data_quality',
+              message: `Line ${line} has a non-numeric ${header} '${value}'; the value was dropped`,
+              line,
+              column: header
+            });
+          }
+        } else {
+          row[header] = value;
+        }
+      }
+    });
+
+    const missing = REQUIRED_COLUMNS.find(column => !row[column]);
+    if (missing) {
+      this.diagnostics?.reject({
+        type: 'invalid_data',
+        message: `Line ${line} has no value for required column '${missing}'`,
+        line,
+        column: missing
+      });
+      return null;
+    }
+    return row as MafData;
+  }
+}
+
+/**
+ * Collects per-line parse problems, keeping the first `limit` of each kind and
+ * counting the rest.
+ */
+class DiagnosticsCollector {
+  private totalRows = 0;
+  private rejectedRows = 0;
+  private totalErrors = 0;
+  private totalWarnings = 0;
+  private readonly errors: ValidationError[] = [];
+  private readonly warnings: ValidationWarning[] = [];
+
+  constructor(private readonly limit: number) {}
+
+  countRow(): void {
+    this.totalRows++;
+  }
+
+  reject(error: ValidationError): void {
+    this.rejectedRows++;
+    this.totalErrors++;
+    if (this.errors.length < this.limit) {
+      this.errors.push(error);
+    }
+  }
+
+  warn(warning: ValidationWarning): void {
+    this.totalWarnings++;
+    if (this.warnings.length < this.limit) {
+      this.warnings.push(warning);
+    }
+  }
+
+  toDiagnostics(): ParseDiagnostics {
+    return {
+      totalRows: this.totalRows,
+      rejectedRows: this.rejectedRows,
+      errors: [...this.errors],
+      warnings: [...this.warnings],
+      totalErrors: this.totalErrors,
+      totalWarnings: this.totalWarnings
+    };
   }
-}
\ No newline at end of file
+}
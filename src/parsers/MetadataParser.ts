@@ -1,20 +1,22 @@
 import { MetadataRow, ValidationResult, ValidationError, ValidationWarning } from '../types';
+import { GzipDecoder } from '../utils';
+import { DelimitedTextReader } from './DelimitedTextReader';
 
 export type FieldTypeMap = Record<string, 'categorical' | 'numerical'>;
 
 export class MetadataParser {
   static async parseFromFile(file: File): Promise<MetadataRow[]> {
     const content = await this.readFileContent(file);
-    return this.parseFromString(content, this.detectDelimiter(content));
+    return this.parseFromString(content, DelimitedTextReader.detectDelimiter(content));
   }
 
   static parseFromString(content: string, delimiter: string = '\t'): MetadataRow[] {
-    const lines = content.trim().split('\n');
-    if (lines.length === 0) {
+    const records = DelimitedTextReader.parse(content, delimiter);
+    if (records.length === 0) {
       throw new Error('File is empty');
     }
 
-    const headers = lines[0].split(delimiter).map(h => h.trim());
+    const headers = DelimitedTextReader.trimTrailingEmpty(records[0].fields).map(h => h.trim());
     const data: MetadataRow[] = [];
 
     // Check if Tumor_Sample_Barcode column exists
@@ -22,8 +24,8 @@ export class MetadataParser {
       throw new Error('Metadata file must contain "Tumor_Sample_Barcode" column');
     }
 
-    for (let i = 1; i < lines.length; i++) {
-      const values = lines[i].split(delimiter);
+    for (let i = 1; i < records.length; i++) {
+      const values = DelimitedTextReader.trimTrailingEmpty(records[i].fields, headers.length);
       if (values.length !== headers.length) {
         // console.warn(`Line ${i + 1} has ${values.length} columns but expected ${headers.length}`);
         continue;
@@ -56,8 +58,8 @@ export class MetadataParser {
     if (!response.ok) {
       throw new Error(`Failed to fetch metadata file from ${url}: ${response.statusText}`);
     }
-    const content = await response.text();
-    return this.parseFromString(content, this.detectDelimiter(content));
+    const content = GzipDecoder.decodeText(new Uint8Array(await response.arrayBuffer()));
+    return this.parseFromString(content, DelimitedTextReader.detectDelimiter(content));
   }
 
   static detectFieldTypes(data: MetadataRow[]): FieldTypeMap {
@@ -148,17 +150,15 @@ export class MetadataParser {
   private static async readFileContent(file: File): Promise<string> {
     return new Promise((resolve, reject) => {
       const reader = new FileReader();
-      reader.onload = () => resolve(reader.result as string);
+      reader.onload = () => {
+        try {
+          resolve(GzipDecoder.decodeText(new Uint8Array(reader.result as ArrayBuffer)));
+        } catch (error) {
+          reject(error);
+        }
+      };
       reader.onerror = () => reject(new Error('Failed to read file'));
-      reader.readAsText(file);
+      reader.readAsArrayBuffer(file);
     });
   }
-
-  private static detectDelimiter(content: string): string {
-    const firstLine = content.split('\n')[0];
-    const tabCount = (firstLine.match(/\t/g) || []).length;
-    const commaCount = (firstLine.match(/,/g) || []).length;
-    
-    return tabCount > commaCount ? '\t' : ',';
-  }
 }
\ No newline at end of file
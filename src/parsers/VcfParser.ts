@@ -0,0 +1,306 @@
+import { MafData, VcfParseOptions } from '../types';
+import { GzipDecoder } from '../utils';
+import { VariantClassificationNormalizer } from '../core/VariantClassificationNormalizer';
+
+// One transcript consequence from a CSQ (VEP) or ANN (SnpEff) entry, in common terms
+interface TranscriptAnnotation {
+  allele: string;
+  alleleNum?: number;
+  consequence: string;
+  impact?: string;
+  symbol?: string;
+  transcript?: string;
+  biotype?: string;
+  hgvsc?: string;
+  hgvsp?: string;
+  canonical: boolean;
+  pick: boolean;
+}
+
+interface VcfHeader {
+  annotationField?: 'CSQ' | 'ANN';
+  annotationFormat: string[];
+  samples: string[];
+  tumorSample?: string;
+}
+
+// Field layout SnpEff writes when the header description cannot be read
+const ANN_FIELDS = [
+  'Allele', 'Annotation', 'Annotation_Impact', 'Gene_Name', 'Gene_ID', 'Feature_Type', 'Feature_ID',
+  'Transcript_BioType', 'Rank', 'HGVS.c', 'HGVS.p', 'cDNA.pos / cDNA.length', 'CDS.pos / CDS.length',
+  'AA.pos / AA.length', 'Distance', 'ERRORS / WARNINGS / INFO'
+];
+
+const AMINO_ACIDS: Record<string, string> = {
+  Ala: 'A', Arg: 'R', Asn: 'N', Asp: 'D', Cys: 'C', Gln: 'Q', Glu: 'E', Gly: 'G', His: 'H', Ile: 'I',
+  Leu: 'L', Lys: 'K', Met: 'M', Phe: 'F', Pro: 'P', Ser: 'S', Thr: 'T', Trp: 'W', Tyr: 'Y', Val: 'V',
+  Sec: 'U', Pyl: 'O', Xaa: 'X', Ter: '*'
+};
+
+export class VcfParser {
+  static async parseFromFile(file: File, options: VcfParseOptions = {}): Promise<MafData[]> {
+    const content = GzipDecoder.decodeText(new Uint8Array(await file.arrayBuffer()));
+    // Sites-only VCFs carry no sample names, so fall back to the file name
+    const sampleName = options.sampleName ?? file.name.replace(/\.vcf(\.b?gz)?$/i, '');
+    return this.parseFromString(content, { ...options, sampleName });
+  }
+
+  static async parseFromUrl(url: string, options: VcfParseOptions = {}): Promise<MafData[]> {
+    const response = await fetch(url);
+    if (!response.ok) {
+      throw new Error(`Failed to fetch VCF file from ${url}: ${response.statusText}`);
+    }
+    const content = GzipDecoder.decodeText(new Uint8Array(await response.arrayBuffer()));
+    return this.parseFromString(content, options);
+  }
+
+  /**
+   * Converts an annotated VCF into MAF rows: one row per sample carrying each
+   * alternate allele, classified from the canonical transcript's consequence.
+   */
+  static parseFromString(content: string, options: VcfParseOptions = {}): MafData[] {
+    const lines = content.replace(/^\uFEFF/, '').split(/\r?\n/);
+    const header = this.parseHeader(lines, options);
+    if (!header) {
+      throw new Error('VCF file is missing the #CHROM header line');
+    }
+
+    const samples = options.samples
+      ?? (header.tumorSample && header.samples.includes(header.tumorSample) ? [header.tumorSample] : header.samples);
+    const missing = samples.filter(sample => !header.samples.includes(sample));
+    if (missing.length > 0) {
+      throw new Error(`Samples not found in VCF: ${missing.join(', ')}`);
+    }
+    const sampleColumns = samples.map(sample => 9 + header.samples.indexOf(sample));
+
+    const data: MafData[] = [];
+    const passOnly = options.passOnly ?? true;
+    const canonicalTranscripts = new Set((options.canonicalTranscripts ?? []).map(id => id.split('.')[0]));
+
+    lines.forEach(line => {
+      if (line === '' || line.startsWith('#')) return;
+
+      const fields = line.split('\t');
+      if (fields.length < 8) return;
+
+      const [chrom, pos, , ref, altField, , filter, info] = fields;
+      if (passOnly && filter !== 'PASS' && filter !== '.') return;
+
+      const alts = altField.split(',');
+      const annotations = this.parseAnnotations(info, header, canonicalTranscripts);
+      const vepAlleles = this.getVepAlleles(ref, alts);
+      const format = fields[8]?.split(':') ?? [];
+
+      alts.forEach((alt, altIndex) => {
+        // Symbolic alleles, breakends and spanning deletions have no sequence change to classify
+        if (!/^[ACGTN]+$/i.test(alt)) return;
+
+        const alleleAnnotations = annotations.filter(annotation =>
+          annotation.alleleNum !== undefined
+            ? annotation.alleleNum === altIndex + 1
+            : annotation.allele === alt || annotation.allele === vepAlleles[altIndex]
+        );
+        const annotation = this.selectAnnotation(
+          alleleAnnotations.length > 0 || alts.length > 1 ? alleleAnnotations : annotations
+        );
+
+        const variant = this.normalizeAlleles(Number(pos), ref, alt);
+        const row: MafData = {
+          Hugo_Symbol: annotation?.symbol || 'Unknown',
+          Tumor_Sample_Barcode: '',
+          Variant_Classification: annotation
+            ? this.toVariantClassification(annotation.consequence, variant.type, variant.inframe)
+            : 'Targeted_Region',
+          Chromosome: chrom,
+          Start_Position: variant.start,
+          End_Position: variant.end,
+          Variant_Type: variant.type,
+          Reference_Allele: variant.ref,
+          Tumor_Seq_Allele2: variant.alt
+        };
+        if (annotation?.hgvsp) row.Protein_Change = this.toShortProteinChange(annotation.hgvsp);
+        if (annotation?.hgvsc) row.HGVSc = annotation.hgvsc;
+        if (annotation?.transcript) row.Transcript_ID = annotation.transcript;
+        if (annotation?.consequence) row.Consequence = annotation.consequence;
+        if (annotation?.impact) row.IMPACT = annotation.impact;
+
+        if (sampleColumns.length === 0) {
+          data.push({ ...row, Tumor_Sample_Barcode: options.sampleName ?? 'Sample' });
+          return;
+        }
+
+        sampleColumns.forEach((column, i) => {
+          const values = (fields[column] ?? '').split(':');
+          if (!this.carriesAllele(format, values, altIndex + 1)) return;
+          data.push({
+            ...row,
+            Tumor_Sample_Barcode: samples[i],
+            ...this.getReadCounts(format, values, altIndex + 1)
+          });
+        });
+      });
+    });
+
+    return data;
+  }
+
+  /**
+   * Maps an `&`-joined list of SO consequence terms to a MAF Variant_Classification,
+   * using the most severe term. Frameshift and protein-altering consequences are
+   * resolved to insertion/deletion classes using the variant type.
+   */
+  static toVariantClassification(consequence: string, variantType: string, inframe: boolean = false): string {
+    return VariantClassificationNormalizer.normalize(consequence, variantType, {}, inframe) ?? 'Targeted_Region';
+  }
+
+  /**
+   * Shortens an HGVS protein notation to single-letter amino acids,
+   * e.g. `ENSP00000269305.4:p.Arg175His` → `p.R175H`.
+   */
+  static toShortProteinChange(hgvsp: string): string {
+    // VEP escapes e.g. `=` as %3D; decode those only, so a stray `%` is left as it is
+    const decoded = hgvsp.replace(/%([0-9A-Fa-f]{2})/g, (_, hex: string) => String.fromCharCode(parseInt(hex, 16)));
+    const notation = decoded.replace(/^[^:]*:/, '');
+    return notation.replace(/[A-Z][a-z]{2}/g, code => AMINO_ACIDS[code] ?? code);
+  }
+
+  private static parseHeader(lines: string[], options: VcfParseOptions): VcfHeader | undefined {
+    const formats: Partial<Record<'CSQ' | 'ANN', string[]>> = {};
+    let tumorSample: string | undefined;
+
+    for (const line of lines) {
+      if (line.startsWith('##INFO=<ID=CSQ,') || line.startsWith('##INFO=<ID=ANN,')) {
+        const id = line.slice(11, 14) as 'CSQ' | 'ANN';
+        const description = /Description="([^"]*)"/.exec(line)?.[1] ?? '';
+        const layout = /Format:\s*'?([^']*)'?/.exec(description)?.[1];
+        formats[id] = layout ? layout.split('|').map(field => field.trim()) : id === 'ANN' ? ANN_FIELDS : [];
+      } else if (line.startsWith('##tumor_sample=')) {
+        tumorSample = line.slice('##tumor_sample='.length).trim();
+      } else if (line.startsWith('#CHROM')) {
+        const annotationField = options.annotationField ?? (formats.CSQ ? 'CSQ' : formats.ANN ? 'ANN' : undefined);
+        return {
+          annotationField,
+          annotationFormat: (annotationField && formats[annotationField]) || (annotationField === 'ANN' ? ANN_FIELDS : []),
+          samples: line.split('\t').slice(9),
+          tumorSample
+        };
+      } else if (!line.startsWith('##') && line !== '') {
+        break;
+      }
+    }
+
+    return undefined;
+  }
+
+  private static parseAnnotations(
+    info: string,
+    header: VcfHeader,
+    canonicalTranscripts: Set<string>
+  ): TranscriptAnnotation[] {
+    if (!header.annotationField) return [];
+
+    const prefix = `${header.annotationField}=`;
+    const entry = info.split(';').find(item => item.startsWith(prefix));
+    if (!entry) return [];
+
+    const isVep = header.annotationField === 'CSQ';
+    return entry.slice(prefix.length).split(',').map(value => {
+      const parts = value.split('|');
+      const field = (name: string) => {
+        const index = header.annotationFormat.indexOf(name);
+        return index === -1 ? undefined : parts[index] || undefined;
+      };
+
+      const transcript = field(isVep ? 'Feature' : 'Feature_ID');
+      const alleleNum = field('ALLELE_NUM');
+      return {
+        allele: field('Allele') ?? '',
+        alleleNum: alleleNum ? Number(alleleNum) : undefined,
+        consequence: field(isVep ? 'Consequence' : 'Annotation') ?? '',
+        impact: field(isVep ? 'IMPACT' : 'Annotation_Impact'),
+        symbol: field(isVep ? 'SYMBOL' : 'Gene_Name'),
+        transcript,
+        biotype: field(isVep ? 'BIOTYPE' : 'Transcript_BioType'),
+        hgvsc: field(isVep ? 'HGVSc' : 'HGVS.c')?.replace(/^[^:]*:/, ''),
+        hgvsp: field(isVep ? 'HGVSp' : 'HGVS.p'),
+        canonical: field('CANONICAL') === 'YES'
+          || (transcript !== undefined && canonicalTranscripts.has(transcript.split('.')[0])),
+        pick: field('PICK') === '1'
+      };
+    });
+  }
+
+  /**
+   * Prefers the canonical transcript, then VEP's --pick flag, then protein-coding
+   * transcripts, breaking remaining ties on consequence severity.
+   */
+  private static selectAnnotation(annotations: TranscriptAnnotation[]): TranscriptAnnotation | undefined {
+    const rank = (annotation: TranscriptAnnotation) => [
+      annotation.canonical ? 0 : 1,
+      annotation.pick ? 0 : 1,
+      annotation.biotype === 'protein_coding' ? 0 : 1,
+      VariantClassificationNormalizer.getConsequenceSeverity(annotation.consequence.split('&'))
+    ];
+
+    let best: TranscriptAnnotation | undefined;
+    let bestRank: number[] = [];
+    annotations.forEach(annotation => {
+      const current = rank(annotation);
+      const index = current.findIndex((value, i) => value !== bestRank[i]);
+      if (!best || (index !== -1 && current[index] < bestRank[index])) {
+        best = annotation;
+        bestRank = current;
+      }
+    });
+    return best;
+  }
+
+  // VEP drops the first base from every allele when they all share it (indel padding)
+  private static getVepAlleles(ref: string, alts: string[]): string[] {
+    const trim = alts.every(alt => alt[0] === ref[0]) && alts.some(alt => alt.length !== ref.length);
+    return alts.map(alt => (trim ? alt.slice(1) || '-' : alt));
+  }
+
+  // MAF-style alleles and coordinates: indels lose the padding base, insertions span the flanking bases
+  private static normalizeAlleles(pos: number, ref: string, alt: string) {
+    if (ref.length === alt.length) {
+      const type = ref.length === 1 ? 'SNP' : ref.length === 2 ? 'DNP' : ref.length === 3 ? 'TNP' : 'ONP';
+      return { start: pos, end: pos + ref.length - 1, ref, alt, type, inframe: true };
+    }
+
+    let start = pos;
+    if (ref[0] === alt[0]) {
+      ref = ref.slice(1);
+      alt = alt.slice(1);
+      start++;
+    }
+    const type = alt.length > ref.length ? 'INS' : 'DEL';
+    const inframe = Math.abs(ref.length - alt.length) % 3 === 0;
+    if (ref === '') {
+      return { start: start - 1, end: start, ref: '-', alt, type, inframe };
+    }
+    return { start, end: start + ref.length - 1, ref, alt: alt || '-', type, inframe };
+  }
+
+  private static carriesAllele(format: string[], values: string[], alleleIndex: number): boolean {
+    const gtIndex = format.indexOf('GT');
+    // Without genotypes every listed sample is assumed to carry the call
+    if (gtIndex === -1) return true;
+    const genotype = values[gtIndex] ?? '.';
+    return genotype.split(/[/|]/).some(allele => Number(allele) === alleleIndex);
+  }
+
+  private static getReadCounts(format: string[], values: string[], alleleIndex: number): Partial<MafData> {
+    const counts: Partial<MafData> = {};
+    const ad = values[format.indexOf('AD')]?.split(',').map(Number);
+    if (format.includes('AD') && ad && !ad.some(isNaN)) {
+      counts.t_ref_count = ad[0];
+      counts.t_alt_count = ad[alleleIndex];
+    }
+    const dp = Number(values[format.indexOf('DP')]);
+    if (format.includes('DP') && !isNaN(dp)) {
+      counts.t_depth = dp;
+    }
+    return counts;
+  }
+}
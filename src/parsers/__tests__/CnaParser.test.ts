@@ -0,0 +1,27 @@
+import { CnaParser } from '../CnaParser';
+
+describe('CnaParser', () => {
+  it('should read a cBioPortal discrete CNA matrix, keeping deep calls by default', () => {
+    const content = [
+      'Hugo_Symbol\tEntrez_Gene_Id\tS1\tS2\tS3',
+      'ERBB2\t2064\t2\t0\t1',
+      'CDKN2A\t1029\t-2\t-1.5\tNA'
+    ].join('\n');
+
+    expect(CnaParser.parseFromString(content)).toEqual([
+      { gene: 'ERBB2', sample: 'S1', type: 'AMP', value: 2 },
+      { gene: 'CDKN2A', sample: 'S1', type: 'HOMDEL', value: -2 },
+      { gene: 'CDKN2A', sample: 'S2', type: 'HOMDEL', value: -1.5 }
+    ]);
+  });
+
+  it('should read GISTIC thresholded tables and keep shallow calls on request', () => {
+    const content = [
+      'Gene Symbol\tLocus ID\tCytoband\tTCGA-01\tTCGA-02',
+      'MYC\t4609\t8q24.21\t1\t-1'
+    ].join('\n');
+
+    const data = CnaParser.parseFromString(content, '\t', { includeShallow: true });
+    expect(data.map(cna => [cna.sample, cna.type])).toEqual([['TCGA-01', 'GAIN'], ['TCGA-02', 'HETLOSS']]);
+  });
+});
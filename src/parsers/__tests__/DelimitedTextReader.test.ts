@@ -0,0 +1,50 @@
+import { DelimitedTextReader } from '../DelimitedTextReader';
+
+describe('DelimitedTextReader', () => {
+  it('should handle quoted fields with delimiters, newlines and escaped quotes', () => {
+    const records = DelimitedTextReader.parse(
+      'Tumor_Sample_Barcode,Note\r\nS1,"a, b"\r\nS2,"line one\nline two"\r\nS3,"say ""hi"""\r\n',
+      ','
+    );
+
+    expect(records.map(r => r.fields)).toEqual([
+      ['Tumor_Sample_Barcode', 'Note'],
+      ['S1', 'a, b'],
+      ['S2', 'line one\nline two'],
+      ['S3', 'say "hi"']
+    ]);
+    expect(records[3].line).toBe(5);
+  });
+
+  it('should strip a BOM and skip blank lines', () => {
+    const records = DelimitedTextReader.parse('﻿a\tb\n\n1\t2\n');
+    expect(records.map(r => r.fields)).toEqual([['a', 'b'], ['1', '2']]);
+  });
+
+  it('should produce identical records regardless of chunking', () => {
+    const content = 'a,b\n"x\r\ny","z"""\r\n1,2';
+    const expected = DelimitedTextReader.parse(content, ',');
+
+    const reader = new DelimitedTextReader(',');
+    const records = [];
+    for (const char of content) {
+      records.push(...reader.push(char));
+    }
+    records.push(...reader.flush());
+
+    expect(records).toEqual(expected);
+  });
+
+  it('should detect tab, comma and semicolon delimiters', () => {
+    expect(DelimitedTextReader.detectDelimiter('Hugo_Symbol\tTumor_Sample_Barcode\nTP53\tS1\n')).toBe('\t');
+    expect(DelimitedTextReader.detectDelimiter('Hugo_Symbol,Tumor_Sample_Barcode\nTP53,S1\n')).toBe(',');
+    expect(DelimitedTextReader.detectDelimiter('a;b;c\n1;2,5;3\n4;5;6\n')).toBe(';');
+    // Commas inside TSV values must not flip detection
+    expect(DelimitedTextReader.detectDelimiter('a\tb\n1,2\t3\n4\t5,6,7\n')).toBe('\t');
+  });
+
+  it('should trim empty fields left by trailing delimiters', () => {
+    expect(DelimitedTextReader.trimTrailingEmpty(['a', 'b', ''])).toEqual(['a', 'b']);
+    expect(DelimitedTextReader.trimTrailingEmpty(['a', '', ''], 2)).toEqual(['a', '']);
+  });
+});
@@ -0,0 +1,21 @@
+import { ExpressionParser } from '../ExpressionParser';
+
+describe('ExpressionParser', () => {
+  it('should read a gene × sample matrix, skipping annotation columns and missing values', () => {
+    const content = [
+      'Hugo_Symbol\tEntrez_Gene_Id\tS1\tS2\tS3',
+      'ERBB2\t2064\t1200.5\t85\tNA',
+      'ERBB2\t99999\t1\t1\t1',
+      'ESR1\t2099\t10\t\t30'
+    ].join('\n');
+
+    expect(ExpressionParser.parseFromString(content)).toEqual({
+      genes: ['ERBB2', 'ESR1'],
+      samples: ['S1', 'S2', 'S3'],
+      values: {
+        ERBB2: { S1: 1200.5, S2: 85 },
+        ESR1: { S1: 10, S3: 30 }
+      }
+    });
+  });
+});
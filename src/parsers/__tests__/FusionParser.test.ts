@@ -0,0 +1,45 @@
+import { FusionParser } from '../FusionParser';
+
+describe('FusionParser', () => {
+  it('should turn each STAR-Fusion call into a row on both partner genes', () => {
+    const content = [
+      '#FusionName\tJunctionReadCount\tSpanningFragCount\tSpliceType\tLeftGene\tLeftBreakpoint\tRightGene\tRightBreakpoint',
+      'BCR--ABL1\t120\t40\tONLY_REF_SPLICE\tBCR^ENSG00000186716.21\tchr22:23290413:+\tABL1^ENSG00000097007.19\tchr9:130714455:+',
+      'BCR--ABL1\t3\t1\tINCL_NON_REF_SPLICE\tBCR^ENSG00000186716.21\tchr22:23289621:+\tABL1^ENSG00000097007.19\tchr9:130714455:+'
+    ].join('\n');
+
+    const data = FusionParser.parseFromString(content, { sampleName: 'K562' });
+    expect(data).toEqual([
+      {
+        Hugo_Symbol: 'BCR', Tumor_Sample_Barcode: 'K562', Variant_Classification: 'Fusion',
+        Protein_Change: 'BCR::ABL1 fusion', Fusion_Name: 'BCR::ABL1', Fusion_Partner: 'ABL1',
+        Fusion_Breakpoint: 'chr22:23290413:+', Chromosome: 'chr22', Start_Position: 23290413, End_Position: 23290413
+      },
+      {
+        Hugo_Symbol: 'ABL1', Tumor_Sample_Barcode: 'K562', Variant_Classification: 'Fusion',
+        Protein_Change: 'BCR::ABL1 fusion', Fusion_Name: 'BCR::ABL1', Fusion_Partner: 'BCR',
+        Fusion_Breakpoint: 'chr9:130714455:+', Chromosome: 'chr9', Start_Position: 130714455, End_Position: 130714455
+      }
+    ]);
+  });
+
+  it('should read Arriba calls with a sample column and intergenic partners', () => {
+    const content = [
+      '#gene1\tgene2\tstrand1(gene/fusion)\tstrand2(gene/fusion)\tbreakpoint1\tbreakpoint2\tSample',
+      'TMPRSS2\tERG\t-/-\t-/-\t21:41508081\t21:38445621\tP1',
+      'EWSR1\tLINC01(1200),FLI1(3400)\t+/+\t+/+\t22:29287134\t11:128807180\tP2'
+    ].join('\n');
+
+    const data = FusionParser.parseFromString(content);
+    expect(data.map(row => [row.Tumor_Sample_Barcode, row.Hugo_Symbol, row.Fusion_Partner])).toEqual([
+      ['P1', 'TMPRSS2', 'ERG'],
+      ['P1', 'ERG', 'TMPRSS2'],
+      ['P2', 'EWSR1', 'LINC01'],
+      ['P2', 'LINC01', 'EWSR1']
+    ]);
+  });
+
+  it('should reject files from other callers', () => {
+    expect(() => FusionParser.parseFromString('Gene\tSample\nTP53\tS1', { sampleName: 'S1' })).toThrow(/Unrecognised/);
+  });
+});
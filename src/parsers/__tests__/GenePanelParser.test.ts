@@ -0,0 +1,28 @@
+import { GenePanelParser, NOT_PROFILED_PANEL } from '../GenePanelParser';
+
+describe('GenePanelParser', () => {
+  it('should read cBioPortal panel definitions and plain gene lists', () => {
+    const content = [
+      'stable_id: IMPACT341',
+      'description: Targeted (341 cancer genes) sequencing',
+      'gene_list:\tABL1\tAKT1\tTP53'
+    ].join('\n');
+
+    expect(GenePanelParser.parsePanelFromString(content)).toEqual({ id: 'IMPACT341', genes: ['ABL1', 'AKT1', 'TP53'] });
+    expect(GenePanelParser.parsePanelFromString('# hotspot panel\nKRAS\nBRAF\n', 'HOTSPOT'))
+      .toEqual({ id: 'HOTSPOT', genes: ['KRAS', 'BRAF'] });
+    expect(() => GenePanelParser.parsePanelFromString('KRAS')).toThrow('stable_id');
+  });
+
+  it('should map samples to their mutation panel, leaving whole-exome samples out', () => {
+    const content = [
+      'SAMPLE_ID\tgistic\tmutations',
+      'S1\tNA\tIMPACT341',
+      'S2\tNA\tWES',
+      'S3\tNA\tNA'
+    ].join('\n');
+
+    // NA means the sample wasn't sequenced at all
+    expect(GenePanelParser.parseSamplePanelsFromString(content)).toEqual({ S1: 'IMPACT341', S3: NOT_PROFILED_PANEL });
+  });
+});
@@ -1,5 +1,17 @@
+import { ReadableStream } from 'stream/web';
+import { gzipSync } from 'zlib';
 import { MafParser } from '../MafParser';
 
+const streamOf = (chunks: Array<string | Uint8Array>) => {
+  const encoder = new TextEncoder();
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      chunks.forEach(chunk => controller.enqueue(typeof chunk === 'string' ? encoder.encode(chunk) : chunk));
+      controller.close();
+    }
+  }) as unknown as globalThis.ReadableStream<Uint8Array>;
+};
+
 describe('MafParser', () => {
   it('should validate required columns', () => {
     const mockData = [
@@ -38,4 +50,132 @@ KRAS\tSample_2\tNonsense_Mutation`;
     expect(result[0].Hugo_Symbol).toBe('TP53');
     expect(result[1].Hugo_Symbol).toBe('KRAS');
   });
-});
\ No newline at end of file
+
+  it('should stream rows across chunk boundaries and report progress', async () => {
+    const progress: number[] = [];
+    const rows = await MafParser.parseFromStream(
+      streamOf([
+        'Hugo_Symbol\tTumor_Sample_Barcode\tVariant_Classification\tChromosome\n',
+        'TP53\tSample_1\tMissense_Mutation\t17\nKR',
+        'AS\tSample_2\tNonsense_Mutation\t12\n'
+      ]),
+      { onProgress: p => progress.push(p.rowsParsed) }
+    );
+
+    expect(rows).toHaveLength(2);
+    expect(rows[1]).toEqual({
+      Hugo_Symbol: 'KRAS',
+      Tumor_Sample_Barcode: 'Sample_2',
+      Variant_Classification: 'Nonsense_Mutation',
+      Chromosome: '12'
+    });
+    expect(progress[progress.length - 1]).toBe(2);
+  });
+
+  it('should only keep projected columns', async () => {
+    const rows = await MafParser.parseFromStream(
+      streamOf(['Hugo_Symbol\tTumor_Sample_Barcode\tVariant_Classification\tChromosome\tStart_Position\n',
+        'TP53\tSample_1\tMissense_Mutation\t17\t7675088\n']),
+      { columns: ['Start_Position'] }
+    );
+
+    expect(rows[0].Chromosome).toBeUndefined();
+    expect(rows[0].Start_Position).toBe(7675088);
+  });
+
+  it('should stop parsing when aborted', async () => {
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(MafParser.parseFromStream(
+      streamOf(['Hugo_Symbol\tTumor_Sample_Barcode\tVariant_Classification\n']),
+      { signal: controller.signal }
+    )).rejects.toMatchObject({ name: 'AbortError', message: 'MAF parsing was aborted' });
+  });
+
+  it('should transparently inflate gzipped streams', async () => {
+    const gz = new Uint8Array(gzipSync(
+      'Hugo_Symbol\tTumor_Sample_Barcode\tVariant_Classification\nTP53\tSample_1\tMissense_Mutation\n'
+    ));
+
+    const rows = await MafParser.parseFromStream(streamOf([gz.subarray(0, 1), gz.subarray(1)]));
+    expect(rows).toHaveLength(1);
+    expect(rows[0].Hugo_Symbol).toBe('TP53');
+  });
+
+  it('should capture the GDC preamble and validate against the declared version', async () => {
+    const maf = `#version gdc-1.0.0
+#filedate 20190321
+#annotation.spec gdc-1.0.1-public
+Hugo_Symbol\tTumor_Sample_Barcode\tVariant_Classification
+TP53\tSample_1\tMissense_Mutation`;
+
+    const { data, header } = await MafParser.parse(maf);
+    expect(data).toHaveLength(1);
+    expect(header.version).toBe('gdc-1.0.0');
+    expect(header.annotations).toEqual({ filedate: '20190321', 'annotation.spec': 'gdc-1.0.1-public' });
+    expect(header.columns).toEqual(['Hugo_Symbol', 'Tumor_Sample_Barcode', 'Variant_Classification']);
+
+    const result = MafParser.validateMafData(data, header);
+    expect(result.isValid).toBe(true);
+    expect(result.warnings.some(w => w.type === 'missing_column' && w.column === 'HGVSp_Short')).toBe(true);
+  });
+
+  it('should report missing required header columns instead of an empty file', async () => {
+    const { data, header } = await MafParser.parse('#version 2.4\nName\tId\nTP53\tS1\n');
+    const result = MafParser.validateMafData(data, header);
+
+    expect(result.errors.map(e => e.column)).toEqual(['Hugo_Symbol', 'Tumor_Sample_Barcode', 'Variant_Classification']);
+  });
+
+  it('should report every rejected row with its line number when diagnostics are enabled', async () => {
+    const maf = [
+      '#version gdc-1.0.0',
+      'Hugo_Symbol\tTumor_Sample_Barcode\tVariant_Classification\tStart_Position',
+      'TP53\tSample_1\tMissense_Mutation\t7675088',
+      'KRAS\tSample_2\tMissense_Mutation',
+      '\tSample_3\tSilent\t100',
+      'EGFR\tSample_4\tMissense_Mutation\tunknown'
+    ].join('\n');
+
+    const { data, diagnostics } = await MafParser.parse(maf, { diagnostics: true, maxDiagnostics: 1 });
+
+    expect(data.map(row => row.Hugo_Symbol)).toEqual(['TP53', 'EGFR']);
+    expect(diagnostics).toMatchObject({ totalRows: 4, rejectedRows: 2, totalErrors: 2, totalWarnings: 1 });
+    expect(diagnostics!.errors).toEqual([
+      { type: 'invalid_format', message: 'Line 4 has 3 columns but expected 4', line: 4 }
+    ]);
+    expect(diagnostics!.warnings[0]).toMatchObject({ line: 6, column: 'Start_Position' });
+  });
+
+  it('should map non-standard column names through built-in aliases and explicit mappings', async () => {
+    const table = `Gene\tSample_ID\tConsequence\tHGVSp_Short\tPatient
+TP53\tS1\tmissense_variant\tp.R273H\tP1`;
+
+    const { data, header } = await MafParser.parse(table, { columnMapping: { Patient: 'Tumor_Sample_Barcode' } });
+
+    expect(data[0]).toEqual({
+      Hugo_Symbol: 'TP53',
+      Tumor_Sample_Barcode: 'P1',
+      Sample_ID: 'S1', // Not aliased: the explicit mapping already supplies the barcode
+      Variant_Classification: 'missense_variant',
+      Protein_Change: 'p.R273H'
+    });
+
+    const result = MafParser.validateMafData(data, header);
+    expect(result.isValid).toBe(true);
+    expect(result.columnMapping).toEqual({
+      Tumor_Sample_Barcode: 'Patient',
+      Hugo_Symbol: 'Gene',
+      Variant_Classification: 'Consequence',
+      Protein_Change: 'HGVSp_Short'
+    });
+  });
+
+  it('should leave columns alone when default aliases are disabled', () => {
+    const rows = MafParser.parseFromString('Gene\tTumor_Sample_Barcode\tVariant_Classification\nTP53\tS1\tSilent', '\t', {
+      useDefaultAliases: false
+    });
+    expect(rows).toHaveLength(0);
+  });
+});
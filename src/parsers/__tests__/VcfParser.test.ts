@@ -0,0 +1,105 @@
+import { VcfParser } from '../VcfParser';
+
+const CSQ_FORMAT = 'Allele|Consequence|IMPACT|SYMBOL|Gene|Feature_type|Feature|BIOTYPE|HGVSc|HGVSp|CANONICAL';
+
+const vepVcf = (records: string[], samples = ['TUMOR', 'NORMAL'], extraHeader: string[] = []) => [
+  '##fileformat=VCFv4.2',
+  `##INFO=<ID=CSQ,Number=.,Type=String,Description="Consequence annotations from Ensembl VEP. Format: ${CSQ_FORMAT}">`,
+  ...extraHeader,
+  ['#CHROM', 'POS', 'ID', 'REF', 'ALT', 'QUAL', 'FILTER', 'INFO', 'FORMAT', ...samples].join('\t'),
+  ...records
+].join('\n');
+
+describe('VcfParser', () => {
+  it('should classify the canonical VEP consequence for each carrier sample', () => {
+    const csq = [
+      'A|intron_variant|MODIFIER|TP53|ENSG1|Transcript|ENST2|protein_coding|||',
+      'A|missense_variant|MODERATE|TP53|ENSG1|Transcript|ENST1.4|protein_coding|ENST1.4:c.524G>A|ENSP1.4:p.Arg175His|YES'
+    ].join(',');
+    const content = vepVcf([
+      `17\t7675088\t.\tG\tA\t.\tPASS\tCSQ=${csq}\tGT:AD:DP\t0/1:30,12:42\t0/0:40,0:40`
+    ]);
+
+    const data = VcfParser.parseFromString(content);
+    expect(data).toEqual([{
+      Hugo_Symbol: 'TP53',
+      Tumor_Sample_Barcode: 'TUMOR',
+      Variant_Classification: 'Missense_Mutation',
+      Protein_Change: 'p.R175H',
+      Chromosome: '17',
+      Start_Position: 7675088,
+      End_Position: 7675088,
+      Variant_Type: 'SNP',
+      Reference_Allele: 'G',
+      Tumor_Seq_Allele2: 'A',
+      HGVSc: 'c.524G>A',
+      Transcript_ID: 'ENST1.4',
+      Consequence: 'missense_variant',
+      IMPACT: 'MODERATE',
+      t_ref_count: 30,
+      t_alt_count: 12,
+      t_depth: 42
+    }]);
+  });
+
+  it('should resolve indel classes from the variant type and skip filtered records', () => {
+    const content = vepVcf([
+      '1\t100\t.\tCA\tC\t.\tPASS\tCSQ=-|frameshift_variant|HIGH|APC|ENSG2|Transcript|ENST3|protein_coding|||YES\tGT\t0/1\t0/0',
+      '1\t200\t.\tC\tCTTT\t.\tPASS\tCSQ=TTT|inframe_insertion|MODERATE|APC|ENSG2|Transcript|ENST3|protein_coding|||YES\tGT\t0/1\t0/1',
+      '1\t300\t.\tG\tT\t.\tLowQual\tCSQ=T|stop_gained|HIGH|APC|ENSG2|Transcript|ENST3|protein_coding|||YES\tGT\t0/1\t0/0'
+    ]);
+
+    const data = VcfParser.parseFromString(content);
+    expect(data.map(row => [row.Tumor_Sample_Barcode, row.Variant_Classification, row.Start_Position, row.End_Position]))
+      .toEqual([
+        ['TUMOR', 'Frame_Shift_Del', 101, 101],
+        ['TUMOR', 'In_Frame_Ins', 200, 201],
+        ['NORMAL', 'In_Frame_Ins', 200, 201]
+      ]);
+    expect(VcfParser.parseFromString(content, { passOnly: false })).toHaveLength(4);
+  });
+
+  it('should report only the declared tumor sample and read SnpEff ANN annotations', () => {
+    const ann = 'T|stop_gained|HIGH|KRAS|ENSG3|transcript|ENST4.1|protein_coding|2/5|c.34G>T|p.Gly12*|||||';
+    const content = [
+      '##fileformat=VCFv4.2',
+      '##tumor_sample=T1',
+      '##INFO=<ID=ANN,Number=.,Type=String,Description="Functional annotations: \'Allele | Annotation | Annotation_Impact | Gene_Name | Gene_ID | Feature_Type | Feature_ID | Transcript_BioType | Rank | HGVS.c | HGVS.p | cDNA.pos / cDNA.length | CDS.pos / CDS.length | AA.pos / AA.length | Distance | ERRORS / WARNINGS / INFO\' ">',
+      '#CHROM\tPOS\tID\tREF\tALT\tQUAL\tFILTER\tINFO\tFORMAT\tN1\tT1',
+      `12\t25245351\t.\tG\tT\t.\tPASS\tANN=${ann}\tGT\t0/0\t0/1`
+    ].join('\n');
+
+    const [row] = VcfParser.parseFromString(content);
+    expect(row).toMatchObject({
+      Hugo_Symbol: 'KRAS',
+      Tumor_Sample_Barcode: 'T1',
+      Variant_Classification: 'Nonsense_Mutation',
+      Protein_Change: 'p.G12*'
+    });
+  });
+
+  it('should name rows from sites-only VCFs after the given sample', () => {
+    const content = vepVcf(
+      ['5\t10\t.\tA\tG\t.\t.\tCSQ=G|synonymous_variant&splice_region_variant|LOW|TERT|E|Transcript|ENST5|protein_coding|||YES'],
+      []
+    ).replace('\tFORMAT', '');
+
+    const data = VcfParser.parseFromString(content, { sampleName: 'P01' });
+    expect(data).toHaveLength(1);
+    expect(data[0].Tumor_Sample_Barcode).toBe('P01');
+    expect(data[0].Variant_Classification).toBe('Splice_Region');
+  });
+
+  it('should shorten HGVS protein changes and survive stray percent signs', () => {
+    expect(VcfParser.toShortProteinChange('ENSP1.4:p.Arg175His')).toBe('p.R175H');
+    expect(VcfParser.toShortProteinChange('ENSP1.4:p.Gly12%3D')).toBe('p.G12=');
+    expect(VcfParser.toShortProteinChange('ENSP1.4:p.Gly12% ')).toBe('p.G12% ');
+  });
+
+  it('should map SO terms to MAF classifications', () => {
+    expect(VcfParser.toVariantClassification('splice_donor_variant&intron_variant', 'SNP')).toBe('Splice_Site');
+    expect(VcfParser.toVariantClassification('protein_altering_variant', 'DEL', true)).toBe('In_Frame_Del');
+    expect(VcfParser.toVariantClassification('3_prime_UTR_variant', 'SNP')).toBe("3'UTR");
+    expect(VcfParser.toVariantClassification('made_up_term', 'SNP')).toBe('Targeted_Region');
+  });
+});
@@ -1,2 +1,8 @@
 export { MafParser } from './MafParser';
-export { MetadataParser, type FieldTypeMap } from './MetadataParser';
\ No newline at end of file
+export { MetadataParser, type FieldTypeMap } from './MetadataParser';
+export { DelimitedTextReader, type DelimitedRecord } from './DelimitedTextReader';
+export { VcfParser } from './VcfParser';
+export { CnaParser } from './CnaParser';
+export { FusionParser } from './FusionParser';
+export { ExpressionParser } from './ExpressionParser';
+export { GenePanelParser, NOT_PROFILED_PANEL } from './GenePanelParser';
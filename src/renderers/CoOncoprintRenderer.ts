@@ -0,0 +1,162 @@
+import * as d3 from 'd3';
+import { CoOncoprintConfig, ProcessedData } from '../types';
+import { DataProcessor } from '../core/DataProcessor';
+import { EventEmitter } from '../utils';
+import { OncoprintRenderer } from './OncoprintRenderer';
+
+/**
+ * Two oncoprints side by side (maftools `coOncoplot`) with the same genes in
+ * the same rows, so alteration patterns can be compared across cohorts.
+ */
+export class CoOncoprintRenderer extends EventEmitter {
+  private container: HTMLElement;
+  private config: CoOncoprintConfig;
+  private cohorts: ProcessedData[] = [];
+  private geneOrder: string[] = [];
+  private renderers: OncoprintRenderer[] = [];
+  private wrapper: HTMLDivElement | null = null;
+
+  constructor(container: HTMLElement, config: CoOncoprintConfig = {}) {
+    super();
+    this.container = container;
+    this.config = this.getDefaultConfig(config);
+  }
+
+  setData(data1: ProcessedData, data2: ProcessedData): void {
+    this.geneOrder = this.getSharedGeneOrder(data1, data2);
+
+    // Both panels get every shared gene so rows line up even where a gene is unaltered
+    this.cohorts = [data1, data2].map(data => ({
+      ...data,
+      genes: Array.from(new Set([...data.genes, ...this.geneOrder])),
+      geneCounts: { ...Object.fromEntries(this.geneOrder.map(gene => [gene, 0])), ...data.geneCounts }
+    }));
+    this.emit('dataLoaded', this.geneOrder);
+  }
+
+  updateConfig(config: Partial<CoOncoprintConfig>): void {
+    this.config = this.getDefaultConfig({ ...this.config, ...config });
+  }
+
+  // Shared genes, top to bottom
+  getGeneOrder(): string[] {
+    return [...this.geneOrder];
+  }
+
+  render(): void {
+    if (this.cohorts.length !== 2) {
+      throw new Error('Two cohorts are needed for a co-oncoprint');
+    }
+
+    this.destroyPanels();
+    this.wrapper = document.createElement('div');
+    this.wrapper.className = 'co-oncoprint';
+    this.wrapper.style.display = 'flex';
+    this.wrapper.style.gap = `${this.config.gap}px`;
+    this.container.appendChild(this.wrapper);
+
+    this.renderers = this.cohorts.map((data, index) => {
+      const panel = document.createElement('div');
+      panel.className = 'co-oncoprint-panel';
+
+      const header = document.createElement('div');
+      header.className = 'co-oncoprint-header';
+      header.style.fontFamily = 'Arial, sans-serif';
+      header.style.fontWeight = 'bold';
+      header.style.fontSize = '13px';
+      header.style.marginBottom = '4px';
+      header.textContent = `${this.config.names![index]} (n = ${data.percentageCalculationBase})`;
+      panel.appendChild(header);
+      this.wrapper!.appendChild(panel);
+
+      // The renderer draws customGeneOrder bottom to top
+      const renderer = new OncoprintRenderer(panel, {
+        ...this.config,
+        sortGenes: 'custom',
+        customGeneOrder: [...this.geneOrder].reverse()
+      });
+      ['cellClick', 'geneClick', 'sampleClick'].forEach(eventType => {
+        renderer.on(eventType, event => this.emit(eventType, { ...event, cohort: this.config.names![index] }));
+      });
+      renderer.setData(data);
+      renderer.render();
+      return renderer;
+    });
+  }
+
+  /**
+   * Both panels in one SVG, side by side, each under its cohort name.
+   */
+  exportSVG(): string {
+    if (this.renderers.length !== 2) {
+      throw new Error('No SVG available for export');
+    }
+
+    const parser = new DOMParser();
+    const panels = this.renderers.map(renderer =>
+      parser.parseFromString(renderer.exportSVG(), 'image/svg+xml').documentElement
+    );
+    const headerHeight = 24;
+    const widths = panels.map(panel => parseFloat(panel.getAttribute('width') || '0'));
+    const heights = panels.map(panel => parseFloat(panel.getAttribute('height') || '0'));
+
+    const svg = d3.create('svg')
+      .attr('xmlns', 'http://www.w3.org/2000/svg')
+      .attr('width', widths[0] + this.config.gap! + widths[1])
+      .attr('height', headerHeight + Math.max(...heights))
+      .style('font-family', 'Arial, sans-serif');
+
+    panels.forEach((panel, index) => {
+      const x = index === 0 ? 0 : widths[0] + this.config.gap!;
+      svg.append('text')
+        .attr('x', x + 5)
+        .attr('y', 16)
+        .style('font-weight', 'bold')
+        .style('font-size', '13px')
+        .text(`${this.config.names![index]} (n = ${this.cohorts[index].percentageCalculationBase})`);
+
+      panel.setAttribute('x', String(x));
+      panel.setAttribute('y', String(headerHeight));
+      svg.node()!.appendChild(document.importNode(panel, true));
+    });
+
+    return new XMLSerializer().serializeToString(svg.node()!);
+  }
+
+  destroy(): void {
+    this.destroyPanels();
+    this.removeAllListeners();
+  }
+
+  private destroyPanels(): void {
+    this.renderers.forEach(renderer => renderer.removeAllListeners());
+    this.renderers = [];
+    this.wrapper?.remove();
+    this.wrapper = null;
+  }
+
+  // customGeneOrder (top to bottom) if given, else the most altered genes across both cohorts combined
+  private getSharedGeneOrder(data1: ProcessedData, data2: ProcessedData): string[] {
+    const allGenes = new Set([...data1.genes, ...data2.genes]);
+    const custom = this.config.customGeneOrder?.filter(gene => allGenes.has(gene));
+    if (custom && custom.length > 0) return custom;
+
+    const altered1 = DataProcessor.getAlteredSamples(data1);
+    const altered2 = DataProcessor.getAlteredSamples(data2);
+    const altered = (gene: string) => (altered1[gene]?.size || 0) + (altered2[gene]?.size || 0);
+
+    return Array.from(allGenes)
+      .filter(gene => altered(gene) > 0)
+      .sort((a, b) => altered(b) - altered(a) || a.localeCompare(b))
+      .slice(0, this.config.maxGenes);
+  }
+
+  private getDefaultConfig(config: CoOncoprintConfig): CoOncoprintConfig {
+    return {
+      ...config,
+      names: config.names || ['Cohort 1', 'Cohort 2'],
+      maxGenes: config.maxGenes || 25,
+      gap: config.gap ?? 30
+    };
+  }
+}
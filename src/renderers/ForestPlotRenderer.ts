@@ -0,0 +1,242 @@
+import * as d3 from 'd3';
+import { CohortComparison, ForestPlotConfig, GeneCohortComparison } from '../types';
+import { EventEmitter } from '../utils';
+
+const DEFAULT_COLORS: [string, string] = ['#c0392b', '#2980b9'];
+
+const GENE_LABEL_WIDTH = 80;
+const HEADER_HEIGHT = 40;
+const AXIS_HEIGHT = 40;
+const MARGIN = 20;
+// Width of the count and p-value columns to the right of the plot
+const TABLE_WIDTH = 250;
+
+// Odds ratios of 0 or Infinity are drawn at the edge of this range
+const MIN_ODDS_RATIO = 0.01;
+const MAX_ODDS_RATIO = 100;
+
+/**
+ * Forest plot of a two-cohort comparison: one row per gene with the odds
+ * ratio and its confidence interval on a log scale, followed by the altered
+ * counts in each cohort and the p-value.
+ */
+export class ForestPlotRenderer extends EventEmitter {
+  private container: HTMLElement;
+  private svg: d3.Selection<SVGSVGElement, unknown, null, undefined> | null = null;
+  private config: ForestPlotConfig;
+  private comparison: CohortComparison | null = null;
+
+  constructor(container: HTMLElement, config: ForestPlotConfig = {}) {
+    super();
+    this.container = container;
+    this.config = this.getDefaultConfig(config);
+  }
+
+  setData(comparison: CohortComparison): void {
+    this.comparison = comparison;
+    this.emit('dataLoaded', comparison);
+  }
+
+  updateConfig(config: Partial<ForestPlotConfig>): void {
+    this.config = this.getDefaultConfig({ ...this.config, ...config });
+  }
+
+  // Rows drawn with the current threshold and gene limit, most significant first
+  getDisplayedGenes(): GeneCohortComparison[] {
+    if (!this.comparison) return [];
+    const threshold = this.config.pValueThreshold;
+    return this.comparison.genes
+      .filter(result => threshold === undefined || this.getP(result) < threshold)
+      .slice(0, this.config.maxGenes);
+  }
+
+  render(): void {
+    if (!this.comparison) {
+      throw new Error('No comparison available for rendering');
+    }
+
+    const rows = this.getDisplayedGenes();
+    const rowHeight = this.config.rowHeight!;
+    const width = this.config.width!;
+    const plotWidth = Math.max(100, width - 2 * MARGIN - GENE_LABEL_WIDTH - TABLE_WIDTH);
+    const height = MARGIN + HEADER_HEIGHT + rows.length * rowHeight + AXIS_HEIGHT;
+
+    d3.select(this.container).selectAll('svg').remove();
+    this.svg = d3.select(this.container)
+      .append('svg')
+      .attr('width', width)
+      .attr('height', height)
+      .style('font-family', 'Arial, sans-serif')
+      .style('font-size', '12px')
+      .style('display', 'block');
+
+    const x = d3.scaleLog()
+      .domain([MIN_ODDS_RATIO, MAX_ODDS_RATIO])
+      .range([0, plotWidth])
+      .clamp(true);
+
+    const plotX = MARGIN + GENE_LABEL_WIDTH;
+    const top = MARGIN + HEADER_HEIGHT;
+    this.renderHeader(plotX, plotWidth);
+
+    const plotGroup = this.svg.append('g')
+      .attr('class', 'forest-plot')
+      .attr('transform', `translate(${plotX}, ${top})`);
+
+    // Reference line at no difference
+    plotGroup.append('line')
+      .attr('x1', x(1))
+      .attr('x2', x(1))
+      .attr('y1', 0)
+      .attr('y2', rows.length * rowHeight)
+      .attr('stroke', '#999999')
+      .attr('stroke-dasharray', '4,3');
+
+    plotGroup.append('g')
+      .attr('class', 'x-axis')
+      .attr('transform', `translate(0, ${rows.length * rowHeight})`)
+      .call(d3.axisBottom(x).tickValues([0.01, 0.1, 1, 10, 100]).tickFormat(d3.format('~g')));
+
+    plotGroup.append('text')
+      .attr('x', plotWidth / 2)
+      .attr('y', rows.length * rowHeight + 32)
+      .attr('text-anchor', 'middle')
+      .style('font-size', '10px')
+      .text('Odds ratio (log scale)');
+
+    rows.forEach((result, index) => this.renderRow(result, index, x, plotX, top, plotWidth));
+  }
+
+  exportSVG(): string {
+    if (!this.svg) {
+      throw new Error('No SVG available for export');
+    }
+    return new XMLSerializer().serializeToString(this.svg.node()!);
+  }
+
+  destroy(): void {
+    d3.select(this.container).selectAll('svg').remove();
+    this.svg = null;
+    this.removeAllListeners();
+  }
+
+  private getP(result: GeneCohortComparison): number {
+    return this.config.useQValues ? result.qValue : result.pValue;
+  }
+
+  private renderHeader(plotX: number, plotWidth: number): void {
+    if (!this.svg || !this.comparison) return;
+
+    const { cohort1, cohort2 } = this.comparison;
+    const [color1, color2] = this.config.colors!;
+    const headerGroup = this.svg.append('g')
+      .attr('class', 'forest-plot-header')
+      .attr('transform', `translate(0, ${MARGIN})`);
+
+    // Which side of 1 favours which cohort
+    headerGroup.append('text')
+      .attr('x', plotX)
+      .attr('y', 12)
+      .style('font-size', '10px')
+      .style('fill', color2)
+      .text(`← ${cohort2.name}`);
+    headerGroup.append('text')
+      .attr('x', plotX + plotWidth)
+      .attr('y', 12)
+      .attr('text-anchor', 'end')
+      .style('font-size', '10px')
+      .style('fill', color1)
+      .text(`${cohort1.name} →`);
+
+    const tableX = plotX + plotWidth + 15;
+    [
+      [0, `${cohort1.name} (n=${cohort1.samples})`],
+      [95, `${cohort2.name} (n=${cohort2.samples})`],
+      [190, this.config.useQValues ? 'q-value' : 'p-value']
+    ].forEach(([offset, label]) => {
+      headerGroup.append('text')
+        .attr('x', tableX + (offset as number))
+        .attr('y', 30)
+        .style('font-weight', 'bold')
+        .style('font-size', '10px')
+        .text(label as string);
+    });
+  }
+
+  private renderRow(
+    result: GeneCohortComparison,
+    index: number,
+    x: d3.ScaleLogarithmic<number, number>,
+    plotX: number,
+    top: number,
+    plotWidth: number
+  ): void {
+    if (!this.svg) return;
+
+    const rowHeight = this.config.rowHeight!;
+    const y = top + index * rowHeight + rowHeight / 2;
+    const color = result.oddsRatio >= 1 ? this.config.colors![0] : this.config.colors![1];
+    const clampOr = (value: number) => Math.min(MAX_ODDS_RATIO, Math.max(MIN_ODDS_RATIO, value));
+    const formatP = (p: number) => (p < 0.001 ? p.toExponential(1) : p.toFixed(3));
+    const formatCount = (altered: number, frequency: number) => `${altered} (${Math.round(frequency * 100)}%)`;
+
+    const rowGroup = this.svg.append('g')
+      .attr('class', 'forest-plot-row')
+      .attr('data-gene', result.gene)
+      .style('cursor', 'pointer')
+      .on('click', () => this.emit('geneClick', { gene: result.gene, comparison: result }));
+
+    rowGroup.append('text')
+      .attr('x', plotX - 8)
+      .attr('y', y)
+      .attr('dy', '0.35em')
+      .attr('text-anchor', 'end')
+      .style('font-size', '11px')
+      .text(result.gene);
+
+    rowGroup.append('line')
+      .attr('x1', plotX + x(clampOr(result.ciLower)))
+      .attr('x2', plotX + x(clampOr(result.ciUpper)))
+      .attr('y1', y)
+      .attr('y2', y)
+      .attr('stroke', color)
+      .attr('stroke-width', 1.5);
+
+    rowGroup.append('rect')
+      .attr('x', plotX + x(clampOr(result.oddsRatio)) - 4)
+      .attr('y', y - 4)
+      .attr('width', 8)
+      .attr('height', 8)
+      .attr('fill', color);
+
+    const tableX = plotX + plotWidth + 15;
+    [
+      [0, formatCount(result.cohort1Altered, result.cohort1Frequency)],
+      [95, formatCount(result.cohort2Altered, result.cohort2Frequency)],
+      [190, formatP(this.getP(result))]
+    ].forEach(([offset, label]) => {
+      rowGroup.append('text')
+        .attr('x', tableX + (offset as number))
+        .attr('y', y)
+        .attr('dy', '0.35em')
+        .style('font-size', '10px')
+        .text(label as string);
+    });
+
+    rowGroup.append('title').text(
+      `${result.gene}\nOdds ratio: ${result.oddsRatio.toPrecision(3)} (${result.ciLower.toPrecision(3)}–${result.ciUpper.toPrecision(3)})\n` +
+      `p = ${formatP(result.pValue)}, q = ${formatP(result.qValue)}`
+    );
+  }
+
+  private getDefaultConfig(config: ForestPlotConfig): ForestPlotConfig {
+    return {
+      width: config.width || 700,
+      rowHeight: config.rowHeight || 22,
+      maxGenes: config.maxGenes || 25,
+      pValueThreshold: config.pValueThreshold,
+      useQValues: config.useQValues || false,
+      colors: config.colors || DEFAULT_COLORS
+    };
+  }
+}
@@ -1,9 +1,38 @@
 import * as d3 from 'd3';
-import { ProcessedData, ProcessedMutation, OncoprintConfig, MetadataTrackConfig } from '../types';
-import { VariantColorManager, DEFAULT_VARIANT_COLORS } from '../core/VariantColorManager';
+import {
+  ProcessedData,
+  ProcessedMutation,
+  OncoprintConfig,
+  MetadataTrackConfig,
+  CnaType,
+  GroupEnrichment,
+  GeneSet,
+  ClusterNode
+} from '../types';
+import {
+  VariantColorManager,
+  DEFAULT_VARIANT_COLORS,
+  DEFAULT_CNA_COLORS,
+  CNA_LABELS,
+  DEFAULT_EXPRESSION_COLORS,
+  EXPRESSION_LABELS
+} from '../core/VariantColorManager';
 import { DataProcessor } from '../core/DataProcessor';
 import { EventEmitter } from '../utils';
 
+const NOT_PROFILED_PATTERN_ID = 'oncoprint-not-profiled';
+const MUTATION_LOAD_TRACK_HEIGHT = 50;
+const GENE_BAR_WIDTH = 80;
+const DEFAULT_GENE_SET_SUMMARY_COLOR = '#555555';
+
+// One matrix row, top to bottom: a gene, or the summary row of a gene set block
+interface MatrixRow {
+  gene?: string;
+  geneSet: string | null;
+  block: number;
+  pathway?: string; // Pathway row this member gene is expanded under
+}
+
 export interface RendererDimensions {
   width: number;
   height: number;
@@ -27,7 +56,12 @@ export class OncoprintRenderer extends EventEmitter {
   private colorManager: VariantColorManager;
   private dimensions: RendererDimensions;
   private geneOrder: string[] = [];
+  private matrixRows: MatrixRow[] = [];
+  private geneSetBlocks: GeneSet[] = [];
+  private geneTree: ClusterNode | null = null;
+  private sampleTree: ClusterNode | null = null;
   private sampleOrder: string[] = [];
+  private enrichedGenes: Record<string, GroupEnrichment> = {};
 
   constructor(container: HTMLElement, config: OncoprintConfig = {}) {
     super();
@@ -54,8 +88,10 @@ export class OncoprintRenderer extends EventEmitter {
     }
     
     // Update ordering if sort configuration changed
-    if (this.data && (config.sortGenes || config.sortSamples || config.customGeneOrder || config.splitBy)) {
+    if (this.data && (config.sortGenes || config.sortSamples || config.customGeneOrder || config.splitBy || config.geneSelection || config.geneSets || config.clustering)) {
       this.updateOrdering();
+    } else if (this.data && 'clinicalEnrichment' in config) {
+      this.updateEnrichedGenes();
     }
     
     this.dimensions = this.calculateDimensions();
@@ -67,10 +103,16 @@ export class OncoprintRenderer extends EventEmitter {
     }
 
     this.createSVG();
+    this.renderMutationLoadTrack();
+    this.renderTmbTrack();
     this.renderMetadataTracks();
     this.renderGroupHeaders();
     this.renderMainMatrix();
+    this.renderGeneSetSummaries();
+    this.renderDendrograms();
     this.renderGeneLabels();
+    this.renderGeneBars();
+    this.renderGeneSelectionIndicator();
     this.renderSampleLabels();
     this.renderLegend();
     this.setupInteractions();
@@ -83,6 +125,16 @@ export class OncoprintRenderer extends EventEmitter {
     this.render();
   }
 
+  // Genes as drawn, top to bottom; a gene repeated in several gene sets is listed once
+  getGeneOrder(): string[] {
+    return Array.from(new Set(this.matrixRows.filter(row => row.gene).map(row => row.gene!)));
+  }
+
+  // Gene set blocks as drawn, top to bottom, with their displayed genes
+  getGeneSetBlocks(): GeneSet[] {
+    return this.geneSetBlocks.map(block => ({ ...block, genes: [...block.genes] }));
+  }
+
   exportSVG(): string {
     if (!this.svg) {
       throw new Error('No SVG available for export');
@@ -182,8 +234,8 @@ export class OncoprintRenderer extends EventEmitter {
     const fullSizeCellHeight = this.config.cellHeight || 20;
     
     const geneLabelWidth = this.config.geneLabels ? 120 : 0;
-    const marginLeft = 20;
-    const marginRight = 80;
+    const marginLeft = this.getMarginLeft();
+    const marginRight = this.getMarginRight();
     const marginTop = 20;
     const marginBottom = 80 + (this.config.sampleLabels ? 100 : 0);
     
@@ -192,7 +244,7 @@ export class OncoprintRenderer extends EventEmitter {
       this.sampleOrder.length * fullSizeCellWidth;
     
     const metadataTracksHeight = this.getMetadataTracksHeight();
-    const matrixHeight = this.geneOrder.length * fullSizeCellHeight;
+    const matrixHeight = this.getMatrixHeight(fullSizeCellHeight);
     
     let legendHeight = 0;
     if (this.config.legend) {
@@ -230,10 +282,16 @@ export class OncoprintRenderer extends EventEmitter {
     this.svg = tempSVG;
     
     // Render all components to the temporary SVG
+    this.renderMutationLoadTrack();
+    this.renderTmbTrack();
     this.renderMetadataTracks();
     this.renderGroupHeaders();
     this.renderMainMatrix();
+    this.renderGeneSetSummaries();
+    this.renderDendrograms();
     this.renderGeneLabels();
+    this.renderGeneBars();
+    this.renderGeneSelectionIndicator();
     this.renderSampleLabels();
     this.renderLegend();
     
@@ -294,8 +352,23 @@ export class OncoprintRenderer extends EventEmitter {
     return totalWidth;
   }
 
+  // Top of a matrix row; each gene set block after the first is pushed down by the block gap
+  private getRowY(rowIndex: number, cellHeight: number): number {
+    const row = this.matrixRows[rowIndex];
+    return rowIndex * cellHeight + (row ? row.block * this.getGeneSetGap() : 0);
+  }
+
+  private getMatrixHeight(cellHeight: number): number {
+    if (this.matrixRows.length === 0) return 0;
+    return this.getRowY(this.matrixRows.length - 1, cellHeight) + cellHeight;
+  }
+
+  private getGeneSetGap(): number {
+    return this.config.geneSets?.gap ?? 8;
+  }
+
   private getContentBounds(): { x: number; y: number; width: number; height: number } {
-    if (!this.data || this.sampleOrder.length === 0 || this.geneOrder.length === 0) {
+    if (!this.data || this.sampleOrder.length === 0 || this.matrixRows.length === 0) {
       // Fallback to current SVG size if no data
       return { 
         x: 0, 
@@ -315,10 +388,11 @@ export class OncoprintRenderer extends EventEmitter {
       this.getTotalWidthWithGaps(fullSizeDimensions.cellWidth) : 
       this.sampleOrder.length * fullSizeDimensions.cellWidth;
     const includeFrequencies = this.config.showPercentages ? 80 : 0;
-    const contentWidth = 20 + includeGeneLabels + matrixWidth + includeFrequencies + 80;
+    const includeGeneBars = this.config.showGeneBars ? GENE_BAR_WIDTH + 20 : 0;
+    const contentWidth = this.getMarginLeft() + includeGeneLabels + matrixWidth + includeFrequencies + includeGeneBars + 80;
 
     const metadataTracksHeight = this.getMetadataTracksHeight();
-    const matrixHeight = this.geneOrder.length * fullSizeDimensions.cellHeight;
+    const matrixHeight = this.getMatrixHeight(fullSizeDimensions.cellHeight);
     
     let legendHeight = 0;
     if (this.config.legend) {
@@ -385,106 +459,266 @@ export class OncoprintRenderer extends EventEmitter {
 
     // Create mutation matrix
     const mutationMatrix = this.createMutationMatrix();
+    const cnaMatrix = DataProcessor.getCnaMatrix(this.data);
+    const hasCopyNumber = (this.data.copyNumber?.length ?? 0) > 0;
+    const expressionMatrix = DataProcessor.getExpressionMatrix(this.data);
+    if (this.data.genePanels) {
+      this.appendNotProfiledPattern();
+    }
+    const cellWidth = this.dimensions.cellWidth - 2;
+    const cellHeight = this.dimensions.cellHeight - 2;
 
     // Render cells
-    this.geneOrder.forEach((gene, geneIndex) => {
+    this.matrixRows.forEach((row, rowIndex) => {
+      if (!row.gene) return;
+      const gene = row.gene;
       this.sampleOrder.forEach((sample, sampleIndex) => {
         const mutation = mutationMatrix[gene][sample];
+        const cna = cnaMatrix[gene]?.[sample];
         const x = this.getSampleXPosition(sampleIndex) + 1;
-        const y = (this.geneOrder.length - 1 - geneIndex) * this.dimensions.cellHeight + 1;
-
-        if (!mutation) {
-          // Empty cell
-          matrixGroup.append('rect')
+        const y = this.getRowY(rowIndex, this.dimensions.cellHeight) + 1;
+        // Genes outside a sample's panel are hatched rather than drawn as wild type
+        const profiled = DataProcessor.isProfiled(this.data!, gene, sample);
+        const emptyFill = profiled ? this.colorManager.getColor('Empty') : `url(#${NOT_PROFILED_PATTERN_ID})`;
+
+        // With a copy-number layer, CNAs fill the cell and mutations become inner bars on top
+        let barY = y;
+        let barHeight = cellHeight;
+        if (hasCopyNumber) {
+          const background = matrixGroup.append('rect')
             .attr('x', x)
             .attr('y', y)
-            .attr('width', this.dimensions.cellWidth - 2)
-            .attr('height', this.dimensions.cellHeight - 2)
+            .attr('width', cellWidth)
+            .attr('height', cellHeight)
             .attr('rx', 3)
             .attr('ry', 3)
-            .attr('fill', this.colorManager.getColor('Empty'))
+            .attr('fill', cna ? this.getCnaColor(cna) : emptyFill)
             .attr('stroke', 'none')
             .attr('data-gene', gene)
             .attr('data-sample', sample)
             .style('cursor', 'pointer');
-        } else if (Array.isArray(mutation)) {
-          // Two mutations - split the cell
-          const mutation1 = mutation[0];
-          const mutation2 = mutation[1];
-          const color1 = this.colorManager.getColor(mutation1.variantType);
-          const color2 = this.colorManager.getColor(mutation2.variantType);
-          
-          // Top half
-          const cell1 = matrixGroup.append('rect')
-            .attr('x', x)
-            .attr('y', y)
-            .attr('width', this.dimensions.cellWidth - 2)
-            .attr('height', (this.dimensions.cellHeight - 2) / 2)
-            .attr('rx', 3)
-            .attr('ry', 3)
-            .attr('fill', color1)
-            .attr('stroke', 'none')
-            .attr('data-gene', gene)
-            .attr('data-sample', sample)
-            .attr('data-variant', mutation1.variantType)
-            .style('cursor', 'pointer');
-          
-          // Create tooltip for first mutation
-          let tooltip1 = `Gene: ${gene}\nSample: ${sample}\nVariant: ${mutation1.variantType}`;
-          if (mutation1.proteinChange) {
-            tooltip1 += `\nProtein Change: ${mutation1.proteinChange}`;
+          if (cna) {
+            background
+              .attr('data-cna', cna)
+              .append('title').text(`Gene: ${gene}\nSample: ${sample}\nCopy Number: ${CNA_LABELS[cna]}`);
+          } else if (!profiled) {
+            background
+              .attr('data-profiled', 'false')
+              .append('title').text(`Gene: ${gene}\nSample: ${sample}\nNot profiled`);
           }
-          cell1.append('title').text(tooltip1);
-          
-          // Bottom half
-          const cell2 = matrixGroup.append('rect')
+          barY = y + cellHeight / 3;
+          barHeight = cellHeight / 3;
+        }
+
+        // Fusion glyphs don't fill their cell, so they need the empty background behind them
+        const mutations = mutation ? (Array.isArray(mutation) ? mutation : [mutation]) : [];
+        if (!hasCopyNumber && mutations.some(m => m.fusionPartner)) {
+          matrixGroup.append('rect')
             .attr('x', x)
-            .attr('y', y + (this.dimensions.cellHeight - 2) / 2)
-            .attr('width', this.dimensions.cellWidth - 2)
-            .attr('height', (this.dimensions.cellHeight - 2) / 2)
+            .attr('y', y)
+            .attr('width', cellWidth)
+            .attr('height', cellHeight)
             .attr('rx', 3)
             .attr('ry', 3)
-            .attr('fill', color2)
+            .attr('fill', emptyFill)
             .attr('stroke', 'none')
             .attr('data-gene', gene)
             .attr('data-sample', sample)
-            .attr('data-variant', mutation2.variantType)
             .style('cursor', 'pointer');
-          
-          // Create tooltip for second mutation
-          let tooltip2 = `Gene: ${gene}\nSample: ${sample}\nVariant: ${mutation2.variantType}`;
-          if (mutation2.proteinChange) {
-            tooltip2 += `\nProtein Change: ${mutation2.proteinChange}`;
+        }
+
+        if (!mutation) {
+          // Empty cell, unless the copy-number background already covers it
+          if (!hasCopyNumber) {
+            const cell = matrixGroup.append('rect')
+              .attr('x', x)
+              .attr('y', y)
+              .attr('width', cellWidth)
+              .attr('height', cellHeight)
+              .attr('rx', 3)
+              .attr('ry', 3)
+              .attr('fill', emptyFill)
+              .attr('stroke', 'none')
+              .attr('data-gene', gene)
+              .attr('data-sample', sample)
+              .style('cursor', 'pointer');
+            if (!profiled) {
+              cell
+                .attr('data-profiled', 'false')
+                .append('title').text(`Gene: ${gene}\nSample: ${sample}\nNot profiled`);
+            }
           }
-          cell2.append('title').text(tooltip2);
+        } else if (Array.isArray(mutation)) {
+          // Two mutations - split the cell (or bar) into top and bottom halves
+          this.appendMutationCell(matrixGroup, mutation[0], x, barY, cellWidth, barHeight / 2, cna);
+          this.appendMutationCell(matrixGroup, mutation[1], x, barY + barHeight / 2, cellWidth, barHeight / 2, cna);
+        } else if (mutation.fusionPartner) {
+          // Fusions are drawn as a diamond across the whole cell, over any copy-number colour
+          this.appendMutationCell(matrixGroup, mutation, x, y, cellWidth, cellHeight, cna);
         } else {
           // Single mutation
-          const color = this.colorManager.getColor(mutation.variantType);
-          const cell = matrixGroup.append('rect')
-            .attr('x', x)
-            .attr('y', y)
-            .attr('width', this.dimensions.cellWidth - 2)
-            .attr('height', this.dimensions.cellHeight - 2)
+          this.appendMutationCell(matrixGroup, mutation, x, barY, cellWidth, barHeight, cna);
+        }
+
+        // Expression outliers outline the cell, on top of everything else
+        const outlier = expressionMatrix[gene]?.[sample];
+        if (outlier) {
+          matrixGroup.append('rect')
+            .attr('x', x + 0.5)
+            .attr('y', y + 0.5)
+            .attr('width', Math.max(0, cellWidth - 1))
+            .attr('height', Math.max(0, cellHeight - 1))
             .attr('rx', 3)
             .attr('ry', 3)
-            .attr('fill', color)
-            .attr('stroke', 'none')
+            .attr('fill', 'none')
+            .attr('stroke', this.getExpressionColor(outlier.direction))
+            .attr('stroke-width', 1.5)
             .attr('data-gene', gene)
             .attr('data-sample', sample)
-            .attr('data-variant', mutation.variantType)
-            .style('cursor', 'pointer');
+            .attr('data-expression', outlier.direction)
+            .append('title')
+            .text(`Gene: ${gene}\nSample: ${sample}\nExpression: ${EXPRESSION_LABELS[outlier.direction]} (z = ${outlier.zScore.toFixed(2)})`);
+        }
+      });
+    });
+  }
 
-          // Create tooltip for single mutation
-          let tooltip = `Gene: ${gene}\nSample: ${sample}\nVariant: ${mutation.variantType}`;
-          if (mutation.proteinChange) {
-            tooltip += `\nProtein Change: ${mutation.proteinChange}`;
-          }
-          cell.append('title').text(tooltip);
+  // One cell per sample in each summary row, filled when any gene of the block is altered in that sample
+  private renderGeneSetSummaries(): void {
+    if (!this.svg || !this.data || !this.matrixRows.some(row => !row.gene)) return;
+
+    const summaryGroup = this.svg.append('g')
+      .attr('class', 'gene-set-summaries')
+      .attr('transform', `translate(${this.dimensions.geneLabelWidth + this.dimensions.marginLeft}, ${this.dimensions.marginTop + this.getMetadataTracksHeight()})`);
+
+    const alteredSamples = DataProcessor.getAlteredSamples(this.data);
+    const color = this.config.geneSets?.summaryColor || DEFAULT_GENE_SET_SUMMARY_COLOR;
+    const cellWidth = this.dimensions.cellWidth - 2;
+    const cellHeight = this.dimensions.cellHeight - 2;
+
+    this.matrixRows.forEach((row, rowIndex) => {
+      if (row.gene) return;
+      const block = this.geneSetBlocks[row.block];
+      const y = this.getRowY(rowIndex, this.dimensions.cellHeight) + 1;
+
+      this.sampleOrder.forEach((sample, sampleIndex) => {
+        const alteredGenes = block.genes.filter(gene => alteredSamples[gene]?.has(sample));
+        const cell = summaryGroup.append('rect')
+          .attr('x', this.getSampleXPosition(sampleIndex) + 1)
+          .attr('y', y)
+          .attr('width', cellWidth)
+          .attr('height', cellHeight)
+          .attr('rx', 3)
+          .attr('ry', 3)
+          .attr('fill', alteredGenes.length > 0 ? color : this.colorManager.getColor('Empty'))
+          .attr('stroke', 'none')
+          .attr('data-gene-set', block.name)
+          .attr('data-sample', sample)
+          .attr('data-altered', alteredGenes.length > 0 ? 'true' : 'false')
+          .style('cursor', 'pointer');
+        if (alteredGenes.length > 0) {
+          cell.append('title').text(`${block.name}\nSample: ${sample}\nAltered: ${alteredGenes.join(', ')}`);
         }
       });
     });
   }
 
+  private appendMutationCell(
+    group: d3.Selection<SVGGElement, unknown, null, undefined>,
+    mutation: ProcessedMutation,
+    x: number,
+    y: number,
+    width: number,
+    height: number,
+    cna?: CnaType
+  ): void {
+    const cell = group.append<SVGElement>(mutation.fusionPartner ? 'path' : 'rect');
+    if (mutation.fusionPartner) {
+      cell
+        .attr('d', `M${x + width / 2},${y}L${x + width},${y + height / 2}L${x + width / 2},${y + height}L${x},${y + height / 2}Z`)
+        .attr('data-fusion-partner', mutation.fusionPartner)
+        .attr('data-breakpoint', mutation.breakpoint || '');
+    } else {
+      cell
+        .attr('x', x)
+        .attr('y', y)
+        .attr('width', width)
+        .attr('height', height)
+        .attr('rx', 3)
+        .attr('ry', 3);
+    }
+
+    cell
+      .attr('fill', this.colorManager.getColor(mutation.variantType))
+      .attr('stroke', 'none')
+      .attr('data-gene', mutation.gene)
+      .attr('data-sample', mutation.sample)
+      .attr('data-variant', mutation.variantType)
+      .style('cursor', 'pointer');
+
+    // Create tooltip for the mutation; on a pathway row, name the member genes behind the cell
+    let tooltip = mutation.pathwayGene
+      ? `Pathway: ${mutation.gene}\nGene: ${mutation.pathwayGene}\nSample: ${mutation.sample}\nVariant: ${mutation.variantType}`
+      : `Gene: ${mutation.gene}\nSample: ${mutation.sample}\nVariant: ${mutation.variantType}`;
+    if (mutation.hits?.some(hit => hit.pathwayGene)) {
+      tooltip = `Pathway: ${mutation.gene}\nSample: ${mutation.sample}\nVariant: ${mutation.variantType}`;
+    }
+    if (mutation.fusionPartner) {
+      tooltip += `\nFusion: ${mutation.fusionName ?? `${mutation.gene}::${mutation.fusionPartner}`}`;
+      tooltip += `\nPartner: ${mutation.fusionPartner}`;
+      if (mutation.breakpoint) {
+        tooltip += `\nBreakpoint: ${mutation.breakpoint}`;
+      }
+    } else if (mutation.proteinChange) {
+      tooltip += `\nProtein Change: ${mutation.proteinChange}`;
+    }
+    if (mutation.hits?.some(hit => hit.pathwayGene)) {
+      tooltip += mutation.hits.map(hit => `\n  ${hit.pathwayGene}: ${hit.proteinChange || hit.variantType}`).join('');
+    }
+    if (cna) {
+      tooltip += `\nCopy Number: ${CNA_LABELS[cna]}`;
+    }
+    cell.append('title').text(tooltip);
+  }
+
+  private getCnaColor(type: CnaType): string {
+    return this.config.cnaColors?.[type] || DEFAULT_CNA_COLORS[type];
+  }
+
+  // White cell with grey diagonal hatching, shared by every not-profiled cell and the legend
+  private appendNotProfiledPattern(): void {
+    if (!this.svg) return;
+
+    const defs = this.svg.select<SVGDefsElement>('defs').empty()
+      ? this.svg.append('defs')
+      : this.svg.select<SVGDefsElement>('defs');
+    if (!defs.select(`#${NOT_PROFILED_PATTERN_ID}`).empty()) return;
+
+    const pattern = defs.append('pattern')
+      .attr('id', NOT_PROFILED_PATTERN_ID)
+      .attr('patternUnits', 'userSpaceOnUse')
+      .attr('width', 4)
+      .attr('height', 4)
+      .attr('patternTransform', 'rotate(45)');
+    pattern.append('rect')
+      .attr('width', 4)
+      .attr('height', 4)
+      .attr('fill', '#ffffff');
+    pattern.append('line')
+      .attr('x1', 0)
+      .attr('y1', 0)
+      .attr('x2', 0)
+      .attr('y2', 4)
+      .attr('stroke', '#bdc3c7')
+      .attr('stroke-width', 1.5);
+  }
+
+  private getExpressionColor(direction: 'UP' | 'DOWN'): string {
+    return direction === 'UP'
+      ? this.config.expression?.upColor || DEFAULT_EXPRESSION_COLORS.UP
+      : this.config.expression?.downColor || DEFAULT_EXPRESSION_COLORS.DOWN;
+  }
+
   private renderGeneLabels(): void {
     if (!this.svg || !this.data || !this.config.geneLabels) return;
 
@@ -498,22 +732,67 @@ export class OncoprintRenderer extends EventEmitter {
       .attr('class', 'gene-frequencies')
       .attr('transform', `translate(${this.dimensions.marginLeft + this.dimensions.geneLabelWidth + this.getTotalWidthWithGaps() + 10}, ${this.dimensions.marginTop + this.getMetadataTracksHeight()})`);
 
-    this.geneOrder.forEach((gene, index) => {
-      const y = (this.geneOrder.length - 1 - index) * this.dimensions.cellHeight + this.dimensions.cellHeight / 2;
+    // Mutated or copy-number altered share of the samples profiled for each gene
+    const frequencies = DataProcessor.calculateMutationFrequencies(this.data);
+    // Expression outliers are reported separately from genomic alterations
+    const expressionFrequencies = this.data.expression
+      ? DataProcessor.calculateExpressionFrequencies(this.data)
+      : undefined;
+
+    const enrichedGenes = this.enrichedGenes;
+
+    const setAlterations = this.getGeneSetAlterations();
+    const setsByGene = this.getGeneSetsByGene();
+    this.renderGeneSetBrackets(labelGroup);
+
+    this.matrixRows.forEach((row, index) => {
+      const y = this.getRowY(index, this.dimensions.cellHeight) + this.dimensions.cellHeight / 2;
+
+      // Summary row: set name on the left, share of samples with any gene in the set altered on the right
+      if (!row.gene) {
+        const block = this.geneSetBlocks[row.block];
+        labelGroup.append('text')
+          .attr('class', 'gene-set-label')
+          .attr('x', this.dimensions.geneLabelWidth - 5)
+          .attr('y', y)
+          .attr('dy', '0.35em')
+          .attr('text-anchor', 'end')
+          .attr('data-gene-set', block.name)
+          .style('font-size', Math.min(12, this.dimensions.cellHeight * 0.8) + 'px')
+          .style('font-weight', 'bold')
+          .style('cursor', 'pointer')
+          .text(block.name)
+          .append('title')
+          .text(block.description ? `${block.name}: ${block.description}` : block.name);
+
+        if (this.config.showPercentages) {
+          const altered = setAlterations[block.name]?.size || 0;
+          // Out of the samples profiled for any gene in the set, as for single genes
+          const profiled = DataProcessor.getProfiledSampleCountForGenes(this.data!, block.genes);
+          frequencyGroup.append('text')
+            .attr('x', 0)
+            .attr('y', y)
+            .attr('dy', '0.35em')
+            .attr('text-anchor', 'start')
+            .style('font-size', '10px')
+            .style('font-weight', 'bold')
+            .style('fill', '#666')
+            .text(`${Math.round((altered / (profiled || 1)) * 100)}%`);
+        }
+        return;
+      }
+
+      const gene = row.gene;
       // Calculate frequency based on percentage calculation base (cohort or MAF-based)
-      const mutatedSampleCount = new Set(
-        this.data!.mutations
-          .filter(m => m.gene === gene)
-          .map(m => m.sample)
-      ).size;
-      const frequency = mutatedSampleCount / this.data!.percentageCalculationBase;
+      const frequency = frequencies[gene] || 0;
       
       // Gene name on the left
-      labelGroup.append('text')
+      const label = labelGroup.append('text')
         .attr('x', this.dimensions.geneLabelWidth - 5)
         .attr('y', y)
         .attr('dy', '0.35em')
         .attr('text-anchor', 'end')
+        .attr('data-gene', gene)
         .style('font-size', Math.min(12, this.dimensions.cellHeight * 0.8) + 'px')
         .style('cursor', 'pointer')
         .text(gene)
@@ -521,6 +800,39 @@ export class OncoprintRenderer extends EventEmitter {
           this.emit('geneClick', { gene });
         });
 
+      // Pathway rows show whether they are expanded; their genes are set in lighter, smaller type
+      const members = this.data!.pathways?.[gene];
+      if (members) {
+        const expanded = this.matrixRows.some(other => other.pathway === gene);
+        label
+          .style('font-weight', 'bold')
+          .text(`${expanded ? '▾' : '▸'} ${gene}`)
+          .append('title')
+          .text(`${gene}: ${members.join(', ')}`);
+      } else if (row.pathway) {
+        label
+          .style('font-size', Math.min(10, this.dimensions.cellHeight * 0.7) + 'px')
+          .style('fill', '#666');
+      }
+
+      // A gene drawn in several blocks says where else it appears
+      const otherSets = (setsByGene[gene] || []).filter(name => name !== row.geneSet);
+      if (otherSets.length > 0) {
+        label
+          .style('font-style', 'italic')
+          .append('title')
+          .text(`${gene} is also shown in: ${otherSets.join(', ')}`);
+      }
+
+      const enrichment = enrichedGenes[gene];
+      if (enrichment) {
+        label
+          .style('font-weight', 'bold')
+          .style('fill', this.config.clinicalEnrichment?.color || '#c0392b')
+          .append('title')
+          .text(`Enriched in ${enrichment.group}: ${Math.round(enrichment.groupFrequency * 100)}% vs ${Math.round(enrichment.restFrequency * 100)}% (q = ${enrichment.qValue.toPrecision(2)})`);
+      }
+
       // Frequency on the right
       if (this.config.showPercentages) {
         frequencyGroup.append('text')
@@ -530,11 +842,260 @@ export class OncoprintRenderer extends EventEmitter {
           .attr('text-anchor', 'start')
           .style('font-size', '10px')
           .style('fill', '#666')
-          .text(`${Math.round(frequency * 100)}%`);
+          .text(expressionFrequencies
+            ? `${Math.round(frequency * 100)}% (exp ${Math.round((expressionFrequencies[gene] || 0) * 100)}%)`
+            : `${Math.round(frequency * 100)}%`);
+      }
+    });
+  }
+
+  /**
+   * A thin bracket in the left margin beside each gene set block. Without
+   * summary rows nothing else names the block, so its name runs up the bracket.
+   */
+  private renderGeneSetBrackets(labelGroup: d3.Selection<SVGGElement, unknown, null, undefined>): void {
+    if (this.geneSetBlocks.length === 0) return;
+
+    const cellHeight = this.dimensions.cellHeight;
+    this.geneSetBlocks.forEach((block, blockIndex) => {
+      const rows = this.matrixRows
+        .map((row, index) => ({ row, index }))
+        .filter(({ row }) => row.block === blockIndex);
+      const top = this.getRowY(rows[0].index, cellHeight) + 1;
+      const bottom = this.getRowY(rows[rows.length - 1].index, cellHeight) + cellHeight - 1;
+
+      labelGroup.append('path')
+        .attr('class', 'gene-set-bracket')
+        .attr('d', `M-2,${top}H-6V${bottom}H-2`)
+        .attr('fill', 'none')
+        .attr('stroke', '#999999');
+
+      if (this.config.geneSets?.summaryRows === false) {
+        labelGroup.append('text')
+          .attr('class', 'gene-set-label')
+          .attr('transform', `translate(-9, ${(top + bottom) / 2}) rotate(-90)`)
+          .attr('text-anchor', 'middle')
+          .attr('data-gene-set', block.name)
+          .style('font-size', '9px')
+          .style('font-weight', 'bold')
+          .style('cursor', 'pointer')
+          .text(block.name);
       }
     });
   }
 
+  // Samples with any gene of the block altered, by block name
+  private getGeneSetAlterations(): Record<string, Set<string>> {
+    const result: Record<string, Set<string>> = {};
+    if (!this.data || this.geneSetBlocks.length === 0) return result;
+
+    const alteredSamples = DataProcessor.getAlteredSamples(this.data);
+    this.geneSetBlocks.forEach(block => {
+      result[block.name] = new Set(block.genes.flatMap(gene => Array.from(alteredSamples[gene] ?? [])));
+    });
+    return result;
+  }
+
+  // Displayed blocks each gene is drawn in
+  private getGeneSetsByGene(): Record<string, string[]> {
+    const result: Record<string, string[]> = {};
+    this.geneSetBlocks.forEach(block => {
+      block.genes.forEach(gene => {
+        (result[gene] = result[gene] || []).push(block.name);
+      });
+    });
+    return result;
+  }
+
+  // "Showing N of M genes" between the matrix and the legend, when the selection leaves genes out
+  private renderGeneSelectionIndicator(): void {
+    if (!this.svg || !this.data || this.config.geneSelection?.showIndicator === false) return;
+    const shown = this.getGeneOrder().length;
+    if (shown >= this.data.genes.length) return;
+
+    const matrixHeight = this.getMatrixHeight(this.dimensions.cellHeight);
+    this.svg.append('text')
+      .attr('class', 'gene-selection-indicator')
+      .attr('x', this.dimensions.marginLeft + this.dimensions.geneLabelWidth)
+      .attr('y', this.dimensions.marginTop + this.getMetadataTracksHeight() + matrixHeight + 15)
+      .style('font-size', '10px')
+      .style('fill', '#666')
+      .text(`Showing ${shown} of ${this.data.genes.length} genes`);
+  }
+
+  // Room for the gene dendrogram, when one is drawn, left of the gene labels
+  private getMarginLeft(): number {
+    return 20 + (this.showGeneDendrogram() ? this.getDendrogramSize() + 5 : 0);
+  }
+
+  // Frequency labels and, with showGeneBars, the bar chart beside them
+  private getMarginRight(): number {
+    return 80 + (this.config.showGeneBars ? GENE_BAR_WIDTH + 20 : 0);
+  }
+
+  /**
+   * Horizontal bars of altered samples per gene, as a share of the samples
+   * profiled for it (the same base as the percentages), stacked by what the
+   * cells show: variant class, Multi_Hit, or copy number alone.
+   */
+  private renderGeneBars(): void {
+    if (!this.svg || !this.data || !this.config.showGeneBars) return;
+
+    const breakdown = DataProcessor.getAlterationBreakdown(this.data);
+    const profiledSamples = DataProcessor.getProfiledSampleCounts(this.data);
+    const frequencies = DataProcessor.calculateMutationFrequencies(this.data);
+    const cellHeight = this.dimensions.cellHeight;
+
+    // Same stacking order in every bar: mutation classes by how common they are, then copy number
+    const categoryTotals: Record<string, number> = {};
+    this.geneOrder.forEach(gene => {
+      Object.entries(breakdown[gene] || {}).forEach(([category, count]) => {
+        categoryTotals[category] = (categoryTotals[category] || 0) + count;
+      });
+    });
+    const isCna = (category: string) => category in CNA_LABELS;
+    const categories = Object.keys(categoryTotals).sort((a, b) =>
+      Number(isCna(a)) - Number(isCna(b)) || categoryTotals[b] - categoryTotals[a] || a.localeCompare(b)
+    );
+
+    const maxFrequency = d3.max(this.geneOrder, gene => frequencies[gene] || 0) || 1;
+    const x = d3.scaleLinear().domain([0, maxFrequency]).range([0, GENE_BAR_WIDTH]).nice();
+
+    const left = this.dimensions.marginLeft + this.dimensions.geneLabelWidth + this.getTotalWidthWithGaps() +
+      (this.config.showPercentages ? (this.data.expression ? 90 : 50) : 10);
+    const barsGroup = this.svg.append('g')
+      .attr('class', 'gene-bars')
+      .attr('transform', `translate(${left}, ${this.dimensions.marginTop + this.getMetadataTracksHeight()})`);
+
+    barsGroup.append('g')
+      .attr('class', 'gene-bars-axis')
+      .call(d3.axisTop(x).ticks(3).tickFormat(d3.format('.0%')).tickSizeOuter(0))
+      .style('font-size', '8px');
+
+    this.matrixRows.forEach((row, index) => {
+      if (!row.gene) return;
+      const gene = row.gene;
+      const y = this.getRowY(index, cellHeight);
+      const profiled = profiledSamples[gene] || 0;
+      if (profiled === 0) return;
+
+      let stacked = 0;
+      categories.filter(category => breakdown[gene]?.[category]).forEach(category => {
+        const count = breakdown[gene][category];
+        const label = isCna(category) ? CNA_LABELS[category as CnaType] : category;
+        barsGroup.append('rect')
+          .attr('x', x(stacked / profiled))
+          .attr('y', y + cellHeight * 0.15)
+          .attr('width', x(count / profiled) - x(0))
+          .attr('height', cellHeight * 0.7)
+          .attr('fill', isCna(category) ? this.getCnaColor(category as CnaType) : this.colorManager.getColor(category))
+          .attr('data-gene', gene)
+          .attr('data-category', category)
+          .attr('data-count', count)
+          .append('title')
+          .text(`${gene}\n${label}: ${count} of ${profiled} samples (${Math.round((count / profiled) * 100)}%)`);
+        stacked += count;
+      });
+    });
+  }
+
+  // Height of the sample tree and width of the gene tree
+  private getDendrogramSize(): number {
+    return this.config.clustering?.dendrogramSize || 40;
+  }
+
+  // Only for a whole-cohort clustering; split groups are clustered separately and have no shared tree
+  private showSampleDendrogram(): boolean {
+    return !!this.sampleTree && this.config.clustering?.dendrograms !== false;
+  }
+
+  // Gene set blocks and pathway rows break up the clustered order, so the tree would not match the rows
+  private showGeneDendrogram(): boolean {
+    return !!this.geneTree && this.config.clustering?.dendrograms !== false &&
+      !this.config.geneSets && !this.data?.pathways;
+  }
+
+  /**
+   * Elbow dendrograms of the 'cluster' sorts: the sample tree above the
+   * matrix and the gene tree left of the gene labels. Branch lengths are
+   * linear in merge height, with the root at the outer edge.
+   */
+  private renderDendrograms(): void {
+    if (!this.svg || !this.data) return;
+
+    const size = this.getDendrogramSize();
+    const matrixTop = this.dimensions.marginTop + this.getMetadataTracksHeight();
+    const matrixLeft = this.dimensions.marginLeft + this.dimensions.geneLabelWidth;
+
+    if (this.showSampleDendrogram()) {
+      const positions = new Map(this.sampleOrder.map((sample, index) => [
+        sample, this.getSampleXPosition(index) + this.dimensions.cellWidth / 2
+      ]));
+      const height = d3.scaleLinear().domain([0, this.sampleTree!.height || 1]).range([size, 0]);
+      const group = this.svg.append('g')
+        .attr('class', 'sample-dendrogram')
+        .attr('transform', `translate(${matrixLeft}, ${matrixTop - size - 5})`);
+      this.appendDendrogram(group, this.sampleTree!, positions, (position, merge) => [position, height(merge)]);
+    }
+
+    if (this.showGeneDendrogram()) {
+      const positions = new Map(this.matrixRows.map((row, index) => [
+        row.gene!, this.getRowY(index, this.dimensions.cellHeight) + this.dimensions.cellHeight / 2
+      ]));
+      const width = d3.scaleLinear().domain([0, this.geneTree!.height || 1]).range([size, 0]);
+      const group = this.svg.append('g')
+        .attr('class', 'gene-dendrogram')
+        .attr('transform', `translate(${this.dimensions.marginLeft - size - 5}, ${matrixTop})`);
+      this.appendDendrogram(group, this.geneTree!, positions, (position, merge) => [width(merge), position]);
+    }
+  }
+
+  // Draws one tree; `point` maps a leaf-axis position and a merge height to x, y
+  private appendDendrogram(
+    group: d3.Selection<SVGGElement, unknown, null, undefined>,
+    tree: ClusterNode,
+    leafPositions: Map<string, number>,
+    point: (position: number, height: number) => [number, number]
+  ): void {
+    const layout = (node: ClusterNode): number => {
+      if (!node.children) return leafPositions.get(node.item!) ?? 0;
+      const [first, second] = node.children.map(child => ({ child, position: layout(child) }));
+      const line = d3.line()([
+        point(first.position, first.child.height),
+        point(first.position, node.height),
+        point(second.position, node.height),
+        point(second.position, second.child.height)
+      ]);
+      group.append('path')
+        .attr('d', line)
+        .attr('fill', 'none')
+        .attr('stroke', '#666666')
+        .attr('stroke-width', 1);
+      return (first.position + second.position) / 2;
+    };
+    layout(tree);
+  }
+
+  // Displayed genes enriched in a group of `clinicalEnrichment.field`, with their most significant group
+  private updateEnrichedGenes(): void {
+    const enriched: Record<string, GroupEnrichment> = {};
+    this.enrichedGenes = enriched;
+    const options = this.config.clinicalEnrichment;
+    if (!this.data || !options || this.data.metadata.fieldTypes[options.field] !== 'categorical') return;
+
+    try {
+      const result = DataProcessor.calculateClinicalEnrichment(this.data, options.field, { genes: this.geneOrder });
+      result.groupwise
+        .filter(test => test.qValue < (options.qValueThreshold ?? 0.05) && test.oddsRatio > 1)
+        .forEach(test => {
+          if (!enriched[test.gene]) enriched[test.gene] = test;
+        });
+    } catch (error) {
+      // e.g. a field with a single group; labels are drawn without highlights
+      this.emit('error', error);
+    }
+  }
+
   private renderSampleLabels(): void {
     if (!this.svg || !this.data || !this.config.sampleLabels) return;
 
@@ -556,6 +1117,156 @@ export class OncoprintRenderer extends EventEmitter {
     });
   }
 
+  // Height of the stacked mutation-load bars plus their gap, or 0 when showTotals is off
+  private getMutationLoadTrackHeight(): number {
+    return this.config.showTotals ? MUTATION_LOAD_TRACK_HEIGHT + 10 : 0;
+  }
+
+  /**
+   * Per-sample stacked bars of plotted mutations by variant class, across all
+   * genes in the data, drawn at the very top when `showTotals` is set.
+   */
+  private renderMutationLoadTrack(): void {
+    if (!this.svg || !this.data || !this.config.showTotals) return;
+
+    const counts: Record<string, Record<string, number>> = {};
+    const classTotals: Record<string, number> = {};
+    DataProcessor.getDistinctMutations(this.data).forEach(mutation => {
+      if (!counts[mutation.sample]) counts[mutation.sample] = {};
+      counts[mutation.sample][mutation.variantType] = (counts[mutation.sample][mutation.variantType] || 0) + 1;
+      classTotals[mutation.variantType] = (classTotals[mutation.variantType] || 0) + 1;
+    });
+
+    // Most common class at the bottom of every bar
+    const variants = Object.keys(classTotals).sort((a, b) => classTotals[b] - classTotals[a] || a.localeCompare(b));
+    const total = (sample: string) => Object.values(counts[sample] || {}).reduce((sum, n) => sum + n, 0);
+    const maxTotal = d3.max(this.sampleOrder, total) || 1;
+    const y = d3.scaleLinear().domain([0, maxTotal]).range([MUTATION_LOAD_TRACK_HEIGHT, 0]).nice();
+
+    const trackGroup = this.svg.append('g')
+      .attr('class', 'mutation-load-track')
+      .attr('transform', `translate(${this.dimensions.geneLabelWidth + this.dimensions.marginLeft}, ${this.dimensions.marginTop})`);
+
+    trackGroup.append('g')
+      .attr('class', 'mutation-load-axis')
+      .attr('transform', 'translate(-3, 0)')
+      .call(d3.axisLeft(y).ticks(3).tickFormat(d3.format('d')).tickSizeOuter(0))
+      .style('font-size', '8px');
+
+    this.sampleOrder.forEach((sample, sampleIndex) => {
+      const sampleCounts = counts[sample];
+      if (!sampleCounts) return;
+
+      const x = this.getSampleXPosition(sampleIndex);
+      const sampleTotal = total(sample);
+      let stacked = 0;
+      variants.filter(variant => sampleCounts[variant]).forEach(variant => {
+        const segment = trackGroup.append('rect')
+          .attr('x', x + 1)
+          .attr('y', y(stacked + sampleCounts[variant]))
+          .attr('width', Math.max(1, this.dimensions.cellWidth - 2))
+          .attr('height', y(stacked) - y(stacked + sampleCounts[variant]))
+          .attr('fill', this.colorManager.getColor(variant))
+          .attr('data-sample', sample)
+          .attr('data-variant', variant)
+          .attr('data-count', sampleCounts[variant]);
+        stacked += sampleCounts[variant];
+
+        if (this.config.tooltips !== false) {
+          segment.append('title').text(`${sample}\n${variant}: ${sampleCounts[variant]}\nTotal: ${sampleTotal}`);
+        }
+      });
+    });
+
+    this.svg.append('text')
+      .attr('x', this.dimensions.marginLeft + this.dimensions.geneLabelWidth - 30)
+      .attr('y', this.dimensions.marginTop + MUTATION_LOAD_TRACK_HEIGHT / 2)
+      .attr('dy', '0.35em')
+      .attr('text-anchor', 'end')
+      .style('font-size', '10px')
+      .text('Mutations');
+  }
+
+  // Height of the TMB bar chart plus its gap, or 0 when it is not drawn
+  private getTmbTrackHeight(): number {
+    if (!this.config.tmb || this.config.tmb.track === false || !this.data?.tmb) return 0;
+    return (this.config.tmb.height || 40) + 10;
+  }
+
+  private renderTmbTrack(): void {
+    if (!this.svg || !this.data?.tmb || this.getTmbTrackHeight() === 0) return;
+
+    const options = this.config.tmb!;
+    const tmb = this.data.tmb;
+    const trackHeight = options.height || 40;
+    const value = (sample: string) => {
+      const sampleTmb = tmb[sample]?.tmb || 0;
+      return options.logScale ? Math.log10(sampleTmb + 1) : sampleTmb;
+    };
+    const maxValue = d3.max(this.sampleOrder, value) || 1;
+    const y = d3.scaleLinear().domain([0, maxValue]).range([trackHeight, 0]);
+
+    const top = this.dimensions.marginTop + this.getMutationLoadTrackHeight();
+    const trackGroup = this.svg.append('g')
+      .attr('class', 'tmb-track')
+      .attr('transform', `translate(${this.dimensions.geneLabelWidth + this.dimensions.marginLeft}, ${top})`);
+
+    this.sampleOrder.forEach((sample, sampleIndex) => {
+      const sampleTmb = tmb[sample];
+      if (!sampleTmb) return;
+
+      const barHeight = trackHeight - y(value(sample));
+      const bar = trackGroup.append('rect')
+        .attr('x', this.getSampleXPosition(sampleIndex) + 1)
+        .attr('y', trackHeight - barHeight)
+        .attr('width', Math.max(1, this.dimensions.cellWidth - 2))
+        .attr('height', barHeight)
+        .attr('fill', sampleTmb.high ? options.highColor || '#c0392b' : options.color || '#7f8c8d')
+        .attr('data-sample', sample)
+        .attr('data-tmb', sampleTmb.tmb);
+
+      if (this.config.tooltips !== false) {
+        bar.append('title').text(
+          `${sample}: ${sampleTmb.tmb.toFixed(2)} mutations/Mb (${sampleTmb.mutations} in ${sampleTmb.captureSize} Mb, ` +
+          `${Math.round(sampleTmb.percentile)}th percentile${sampleTmb.high ? ', TMB-high' : ''})`
+        );
+      }
+    });
+
+    // Cut-off line when TMB-high is a fixed threshold
+    const threshold = options.highThreshold ?? 10;
+    const thresholdValue = options.logScale ? Math.log10(threshold + 1) : threshold;
+    if (options.highPercentile === undefined && thresholdValue <= maxValue) {
+      trackGroup.append('line')
+        .attr('class', 'tmb-threshold')
+        .attr('x1', 0)
+        .attr('x2', this.getTotalWidthWithGaps())
+        .attr('y1', y(thresholdValue))
+        .attr('y2', y(thresholdValue))
+        .attr('stroke', options.highColor || '#c0392b')
+        .attr('stroke-width', 0.5)
+        .attr('stroke-dasharray', '3,2');
+    }
+
+    const labelX = this.dimensions.marginLeft + this.dimensions.geneLabelWidth - 5;
+    const maxLabel = options.logScale ? (10 ** maxValue - 1).toFixed(1) : maxValue.toFixed(1);
+    this.svg.append('text')
+      .attr('x', labelX)
+      .attr('y', top + trackHeight / 2)
+      .attr('dy', '0.35em')
+      .attr('text-anchor', 'end')
+      .style('font-size', '10px')
+      .text(options.logScale ? 'TMB (log)' : 'TMB');
+    this.svg.append('text')
+      .attr('x', labelX)
+      .attr('y', top)
+      .attr('dy', '0.7em')
+      .attr('text-anchor', 'end')
+      .style('font-size', '8px')
+      .style('fill', '#666')
+      .text(`${maxLabel}/Mb`);
+  }
+
   private renderMetadataTracks(): void {
     if (!this.svg || !this.data) return;
 
@@ -567,7 +1278,8 @@ export class OncoprintRenderer extends EventEmitter {
       .attr('class', 'metadata-tracks')
       .attr('transform', `translate(${this.dimensions.geneLabelWidth + this.dimensions.marginLeft}, ${this.dimensions.marginTop})`);
 
-    let currentY = 0;
+    // Metadata tracks sit under the mutation-load and TMB bars
+    let currentY = this.getMutationLoadTrackHeight() + this.getTmbTrackHeight();
     activeTracks.forEach((trackConfig) => {
       if (!this.data!.metadata.fields.includes(trackConfig.field)) return;
 
@@ -803,9 +1515,11 @@ export class OncoprintRenderer extends EventEmitter {
 
     const variants = Array.from(new Set(this.data.mutations.map(m => m.variantType)));
     const legend = this.colorManager.getColorLegend(variants);
+    const cnaTypes = (Object.keys(CNA_LABELS) as CnaType[])
+      .filter(type => this.data!.copyNumber?.some(cna => cna.type === type));
 
     // Calculate legend position at bottom
-    const matrixHeight = this.geneOrder.length * this.dimensions.cellHeight;
+    const matrixHeight = this.getMatrixHeight(this.dimensions.cellHeight);
     const legendY = this.dimensions.marginTop + this.getMetadataTracksHeight() + matrixHeight + 30;
     
     const legendGroup = this.svg.append('g')
@@ -817,7 +1531,7 @@ export class OncoprintRenderer extends EventEmitter {
       .attr('y', 15)
       .style('font-weight', 'bold')
       .style('font-size', '12px')
-      .text('Mutation Types');
+      .text(cnaTypes.length > 0 ? 'Alterations' : 'Mutation Types');
 
     // Render legend items horizontally
     let currentX = 0;
@@ -825,12 +1539,19 @@ export class OncoprintRenderer extends EventEmitter {
       const itemGroup = legendGroup.append('g')
         .attr('transform', `translate(${currentX}, 25)`);
 
-      itemGroup.append('rect')
-        .attr('x', 0)
-        .attr('y', 0)
-        .attr('width', 12)
-        .attr('height', 12)
-        .attr('fill', item.color);
+      if (item.variant === 'Fusion') {
+        // Same diamond glyph as in the matrix
+        itemGroup.append('path')
+          .attr('d', 'M6,0L12,6L6,12L0,6Z')
+          .attr('fill', item.color);
+      } else {
+        itemGroup.append('rect')
+          .attr('x', 0)
+          .attr('y', 0)
+          .attr('width', 12)
+          .attr('height', 12)
+          .attr('fill', item.color);
+      }
 
       const text = itemGroup.append('text')
         .attr('x', 18)
@@ -851,6 +1572,77 @@ export class OncoprintRenderer extends EventEmitter {
       currentX += textWidth + 30 + 18; // rect + text + spacing
     });
 
+    // Copy-number entries follow the mutation types on the same row
+    cnaTypes.forEach(type => {
+      const itemGroup = legendGroup.append('g')
+        .attr('transform', `translate(${currentX}, 25)`);
+
+      itemGroup.append('rect')
+        .attr('x', 0)
+        .attr('y', 0)
+        .attr('width', 12)
+        .attr('height', 12)
+        .attr('fill', this.getCnaColor(type));
+
+      const text = itemGroup.append('text')
+        .attr('x', 18)
+        .attr('y', 6)
+        .attr('dy', '0.35em')
+        .style('font-size', '10px')
+        .text(CNA_LABELS[type]);
+
+      const textWidth = text.node()?.getBBox().width || 0;
+      currentX += textWidth + 30 + 18;
+    });
+
+    // Expression outliers are drawn as cell outlines
+    const directions = (['UP', 'DOWN'] as const)
+      .filter(direction => this.data!.expression?.some(e => e.direction === direction));
+    directions.forEach(direction => {
+      const itemGroup = legendGroup.append('g')
+        .attr('transform', `translate(${currentX}, 25)`);
+
+      itemGroup.append('rect')
+        .attr('x', 0.75)
+        .attr('y', 0.75)
+        .attr('width', 10.5)
+        .attr('height', 10.5)
+        .attr('fill', 'none')
+        .attr('stroke', this.getExpressionColor(direction))
+        .attr('stroke-width', 1.5);
+
+      const text = itemGroup.append('text')
+        .attr('x', 18)
+        .attr('y', 6)
+        .attr('dy', '0.35em')
+        .style('font-size', '10px')
+        .text(`Expression ${EXPRESSION_LABELS[direction]}`);
+
+      const textWidth = text.node()?.getBBox().width || 0;
+      currentX += textWidth + 30 + 18;
+    });
+
+    if (this.data.genePanels) {
+      const itemGroup = legendGroup.append('g')
+        .attr('transform', `translate(${currentX}, 25)`);
+
+      itemGroup.append('rect')
+        .attr('x', 0)
+        .attr('y', 0)
+        .attr('width', 12)
+        .attr('height', 12)
+        .attr('fill', `url(#${NOT_PROFILED_PATTERN_ID})`)
+        .attr('stroke', '#bdc3c7')
+        .attr('stroke-width', 0.5);
+
+      itemGroup.append('text')
+        .attr('x', 18)
+        .attr('y', 6)
+        .attr('dy', '0.35em')
+        .style('font-size', '10px')
+        .text('Not profiled');
+    }
+
     // Render metadata legends below mutation legend
     this.renderMetadataLegends(legendGroup, 60);
   }
@@ -1014,14 +1806,20 @@ export class OncoprintRenderer extends EventEmitter {
     if (!this.svg || !this.data) return;
 
     // Cell interactions
-    this.svg.selectAll('.oncoprint-matrix rect')
+    this.svg.selectAll('.oncoprint-matrix rect, .oncoprint-matrix path')
       .on('click', (event) => {
-        const element = event.target as SVGRectElement;
+        const element = event.target as SVGElement;
         const gene = element.getAttribute('data-gene')!;
         const sample = element.getAttribute('data-sample')!;
         const variant = element.getAttribute('data-variant');
+        const fusionPartner = element.getAttribute('data-fusion-partner');
         
-        this.emit('cellClick', { gene, sample, variant });
+        if (fusionPartner) {
+          const breakpoint = element.getAttribute('data-breakpoint') || undefined;
+          this.emit('cellClick', { gene, sample, variant, fusionPartner, breakpoint });
+        } else {
+          this.emit('cellClick', { gene, sample, variant });
+        }
       })
       .on('mouseenter', () => {
         if (!this.config.tooltips) return;
@@ -1029,12 +1827,22 @@ export class OncoprintRenderer extends EventEmitter {
       });
 
     // Gene label interactions
-    this.svg.selectAll('.gene-labels text')
+    this.svg.selectAll('.gene-labels text[data-gene]')
       .on('click', (event) => {
-        const gene = (event.target as SVGTextElement).textContent!;
+        const gene = (event.target as SVGTextElement).getAttribute('data-gene')!;
         this.emit('geneClick', { gene });
       });
 
+    // Gene set labels and summary cells
+    this.svg.selectAll('.gene-labels [data-gene-set], .gene-set-summaries rect')
+      .on('click', (event) => {
+        const element = event.target as SVGElement;
+        const geneSet = element.getAttribute('data-gene-set')!;
+        const sample = element.getAttribute('data-sample') || undefined;
+        const genes = this.geneSetBlocks.find(block => block.name === geneSet)?.genes ?? [];
+        this.emit('geneSetClick', { geneSet, genes, sample });
+      });
+
     // Sample label interactions
     this.svg.selectAll('.sample-labels text')
       .on('click', (event) => {
@@ -1055,23 +1863,58 @@ export class OncoprintRenderer extends EventEmitter {
   private updateOrdering(): void {
     if (!this.data) return;
 
-    // Update gene order - default to top 25 most frequently mutated genes
+    this.geneTree = null;
+    this.sampleTree = null;
+
+    // Update gene order from the selected genes (top 25 most altered by default)
+    const geneSets = this.config.geneSets;
+    let selectedGenes = DataProcessor.selectGenes(this.data, this.config.geneSelection);
+    if (geneSets) {
+      // Every gene of a set gets a row; the selection only decides what goes in 'Other'
+      const setGenes = new Set(geneSets.sets.flatMap(set => set.genes));
+      const withSets = DataProcessor.selectGenes(this.data, {
+        ...this.config.geneSelection,
+        include: [...(this.config.geneSelection?.include ?? []), ...setGenes]
+      });
+      const others = new Set(geneSets.otherGenes ? selectedGenes : []);
+      selectedGenes = withSets.filter(gene => setGenes.has(gene) || others.has(gene));
+    } else if (this.data.pathways) {
+      // Genes of expanded pathways are shown whatever the selection
+      const pathwayNames = Object.keys(this.data.pathways);
+      selectedGenes = DataProcessor.selectGenes(this.data, {
+        ...this.config.geneSelection,
+        include: [
+          ...(this.config.geneSelection?.include ?? []),
+          ...this.data.genes.filter(gene => !pathwayNames.includes(gene))
+        ]
+      });
+    }
     switch (this.config.sortGenes) {
       case 'frequency':
-        this.geneOrder = DataProcessor.sortGenesByFrequency(this.data, true, 25).reverse();
+        this.geneOrder = selectedGenes.reverse();
         break;
-      case 'alphabetical': {
-        const limitedGenes = DataProcessor.sortGenesByFrequency(this.data, true, 25);
-        this.geneOrder = limitedGenes.sort();
+      case 'alphabetical':
+        this.geneOrder = selectedGenes.sort();
+        break;
+      case 'cluster': {
+        const clustered = DataProcessor.clusterGenes(this.data, selectedGenes, this.config.clustering);
+        this.geneTree = clustered.tree;
+        this.geneOrder = clustered.order.reverse();
         break;
       }
-      case 'custom':
-        this.geneOrder = this.config.customGeneOrder?.filter(g => this.data!.genes.includes(g)) || 
-                        DataProcessor.sortGenesByFrequency(this.data, true, 25).reverse();
+      case 'custom': {
+        // An explicit order is shown in full, less any excluded genes
+        const exclude = this.config.geneSelection?.exclude ?? [];
+        const customGenes = this.config.customGeneOrder?.filter(g => this.data!.genes.includes(g) && !exclude.includes(g)) ?? [];
+        const allowed = new Set(selectedGenes);
+        const orderedGenes = geneSets ? customGenes.filter(g => allowed.has(g)) : customGenes;
+        this.geneOrder = orderedGenes.length > 0 ? orderedGenes : selectedGenes.reverse();
         break;
+      }
       default:
-        this.geneOrder = DataProcessor.sortGenesByFrequency(this.data, true, 25).reverse();
+        this.geneOrder = selectedGenes.reverse();
     }
+    this.updateMatrixRows();
 
     // Update sample order - apply split with current sort settings if enabled
     if (this.config.splitBy?.field) {
@@ -1081,7 +1924,8 @@ export class OncoprintRenderer extends EventEmitter {
         this.config.splitBy.field,
         this.config.sortSamples,
         this.config.customSampleOrder,
-        this.geneOrder
+        this.geneOrder,
+        this.config.clustering
       );
       this.sampleOrder = [...this.data.samples];
     } else {
@@ -1090,6 +1934,15 @@ export class OncoprintRenderer extends EventEmitter {
         case 'mutation_load':
           this.sampleOrder = DataProcessor.sortSamplesByMutationLoad(this.data, true);
           break;
+        case 'tmb':
+          this.sampleOrder = DataProcessor.sortSamplesByTmb(this.data, true);
+          break;
+        case 'cluster': {
+          const clustered = DataProcessor.clusterSamples(this.data, this.geneOrder, this.config.clustering);
+          this.sampleTree = clustered.tree;
+          this.sampleOrder = clustered.order;
+          break;
+        }
         case 'alphabetical':
           this.sampleOrder = [...this.data.samples].sort();
           break;
@@ -1104,6 +1957,44 @@ export class OncoprintRenderer extends EventEmitter {
           this.sampleOrder = DataProcessor.sortSamplesForOncoprint(this.data, this.geneOrder).reverse();
       }
     }
+
+    // A gene dendrogram needs room on the left
+    this.dimensions.marginLeft = this.getMarginLeft();
+    this.updateEnrichedGenes();
+  }
+
+  // Rows top to bottom: the gene order as is, or split into gene set blocks each headed by its summary row
+  private updateMatrixRows(): void {
+    const genes = [...this.geneOrder].reverse();
+    const geneSets = this.config.geneSets;
+    const pathways = this.data?.pathways;
+    if (!geneSets && pathways) {
+      // The genes of an expanded pathway go right under its row, in the same relative order
+      this.geneSetBlocks = [];
+      this.matrixRows = genes
+        .filter(gene => pathways[gene])
+        .flatMap(pathway => [
+          { gene: pathway, geneSet: null, block: 0 },
+          ...genes
+            .filter(gene => !pathways[gene] && pathways[pathway].includes(gene))
+            .map(gene => ({ gene, geneSet: null, block: 0, pathway }))
+        ]);
+      return;
+    }
+    if (!geneSets) {
+      this.geneSetBlocks = [];
+      this.matrixRows = genes.map(gene => ({ gene, geneSet: null, block: 0 }));
+      return;
+    }
+
+    this.geneSetBlocks = DataProcessor.groupGenesBySets(genes, geneSets.sets, {
+      overlap: geneSets.overlap,
+      otherGenes: geneSets.otherGenes
+    });
+    this.matrixRows = this.geneSetBlocks.flatMap((block, index) => [
+      ...(geneSets.summaryRows === false ? [] : [{ geneSet: block.name, block: index }]),
+      ...block.genes.map(gene => ({ gene, geneSet: block.name, block: index }))
+    ]);
   }
 
   private createMutationMatrix(): Record<string, Record<string, ProcessedMutation | ProcessedMutation[] | null>> {
@@ -1116,13 +2007,13 @@ export class OncoprintRenderer extends EventEmitter {
     const availableHeight = containerRect.height || 700;
 
     // If we have data, calculate what dimensions we need and scale to fit if necessary
-    if (this.data && this.geneOrder.length > 0 && this.sampleOrder.length > 0) {
+    if (this.data && this.matrixRows.length > 0 && this.sampleOrder.length > 0) {
       let cellWidth = this.config.cellWidth || 10;
       let cellHeight = this.config.cellHeight || 20;
       
       const geneLabelWidth = this.config.geneLabels ? 120 : 0;
-      const marginLeft = 20;
-      const marginRight = 80; // Space for frequency labels on right
+      const marginLeft = this.getMarginLeft();
+      const marginRight = this.getMarginRight(); // Space for frequency labels and bars on right
       const marginTop = 20;
       
       // Calculate matrix width including gaps for split visualization
@@ -1134,7 +2025,7 @@ export class OncoprintRenderer extends EventEmitter {
       const metadataTracksHeight = this.getMetadataTracksHeight();
       
       // Calculate matrix height
-      const matrixHeight = this.geneOrder.length * cellHeight;
+      const matrixHeight = this.getMatrixHeight(cellHeight);
       
       // Calculate legend height
       let legendHeight = 0;
@@ -1173,7 +2064,7 @@ export class OncoprintRenderer extends EventEmitter {
       const scaledMatrixWidth = this.data?.sampleGroups && this.config.splitBy ? 
         this.getTotalWidthWithGaps(cellWidth) : 
         this.sampleOrder.length * cellWidth;
-      const scaledMatrixHeight = this.geneOrder.length * cellHeight;
+      const scaledMatrixHeight = this.getMatrixHeight(cellHeight);
       
       const finalWidth = Math.min(availableWidth, marginLeft + geneLabelWidth + scaledMatrixWidth + marginRight);
       const finalHeight = Math.min(availableHeight, marginTop + metadataTracksHeight + scaledMatrixHeight + 
@@ -1189,9 +2080,9 @@ export class OncoprintRenderer extends EventEmitter {
         metadataTrackHeight: this.config.metadataTrackHeight || 15,
         legendWidth: 0,
         marginTop: 20,
-        marginRight: 80,
+        marginRight: this.getMarginRight(),
         marginBottom: 80 + (this.config.sampleLabels ? 100 : 0),
-        marginLeft: 20
+        marginLeft: this.getMarginLeft()
       };
     }
 
@@ -1205,15 +2096,15 @@ export class OncoprintRenderer extends EventEmitter {
       metadataTrackHeight: this.config.metadataTrackHeight || 15,
       legendWidth: 0,
       marginTop: 20,
-      marginRight: 80,
+      marginRight: this.getMarginRight(),
       marginBottom: 80 + (this.config.sampleLabels ? 100 : 0),
-      marginLeft: 20
+      marginLeft: this.getMarginLeft()
     };
   }
 
   private getMetadataTracksHeight(): number {
     const activeTracks = this.getActiveMetadataTracks();
-    let totalHeight = 0;
+    let totalHeight = this.getMutationLoadTrackHeight() + this.getTmbTrackHeight();
     const trackSpacing = this.config.metadata?.trackSpacing || 3;
     
     // Add height for metadata tracks
@@ -1242,6 +2133,11 @@ export class OncoprintRenderer extends EventEmitter {
         totalHeight += headerHeight + 10; // Add some padding
       }
     }
+
+    // The sample dendrogram sits right on top of the matrix
+    if (this.showSampleDendrogram()) {
+      totalHeight += this.getDendrogramSize() + 5;
+    }
     
     return totalHeight;
   }
@@ -1255,18 +2151,28 @@ export class OncoprintRenderer extends EventEmitter {
       geneLabels: config.geneLabels !== false,
       sampleLabels: config.sampleLabels || false,
       variantColors: config.variantColors || DEFAULT_VARIANT_COLORS,
+      cnaColors: config.cnaColors,
+      expression: config.expression,
+      tmb: config.tmb,
       metadataFields: config.metadataFields || [],
       metadataTrackHeight: config.metadataTrackHeight || 15,
+      geneSelection: config.geneSelection,
+      geneSets: config.geneSets,
+      clustering: config.clustering,
+      pathways: config.pathways,
       sortGenes: config.sortGenes || 'frequency',
       sortSamples: config.sortSamples || 'oncoprint', // Default to oncoprint clustering
       customGeneOrder: config.customGeneOrder || [],
       customSampleOrder: config.customSampleOrder || [],
+      splitBy: config.splitBy,
       tooltips: config.tooltips !== false,
       exportable: config.exportable !== false,
       resizable: config.resizable !== false,
       showPercentages: config.showPercentages !== false, // Show percentages by default
       showTotals: config.showTotals || false,
+      showGeneBars: config.showGeneBars || false,
       legend: config.legend !== false,
+      clinicalEnrichment: config.clinicalEnrichment,
       metadata: config.metadata || { tracks: [] }
     };
   }
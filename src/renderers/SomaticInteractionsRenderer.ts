@@ -0,0 +1,298 @@
+import * as d3 from 'd3';
+import { ProcessedData, GeneInteraction, SomaticInteractionsConfig } from '../types';
+import { DataProcessor } from '../core/DataProcessor';
+import { EventEmitter } from '../utils';
+
+// BrBG ends, as in maftools: brown for exclusivity, green for co-occurrence
+const DEFAULT_CO_OCCURRENCE_COLOR = '#018571';
+const DEFAULT_EXCLUSIVITY_COLOR = '#a6611a';
+
+const GENE_LABEL_WIDTH = 80;
+const MARGIN = 20;
+const LEGEND_WIDTH = 170;
+
+/**
+ * Triangular gene × gene heatmap of pairwise mutual exclusivity and
+ * co-occurrence (maftools `somaticInteractions`). Cells are coloured by
+ * -log10(p), signed positive for co-occurrence and negative for exclusivity.
+ */
+export class SomaticInteractionsRenderer extends EventEmitter {
+  private container: HTMLElement;
+  private svg: d3.Selection<SVGSVGElement, unknown, null, undefined> | null = null;
+  private config: SomaticInteractionsConfig;
+  private genes: string[] = [];
+  private interactions: Record<string, Record<string, GeneInteraction>> = {};
+
+  constructor(container: HTMLElement, config: SomaticInteractionsConfig = {}) {
+    super();
+    this.container = container;
+    this.config = this.getDefaultConfig(config);
+  }
+
+  setData(data: ProcessedData): void {
+    this.genes = this.config.genes?.filter(gene => data.genes.includes(gene)) ||
+      DataProcessor.selectGenes(data);
+
+    // Look pairs up from either side
+    this.interactions = {};
+    DataProcessor.calculateGeneInteractions(data, this.genes).forEach(interaction => {
+      if (!this.interactions[interaction.gene1]) this.interactions[interaction.gene1] = {};
+      if (!this.interactions[interaction.gene2]) this.interactions[interaction.gene2] = {};
+      this.interactions[interaction.gene1][interaction.gene2] = interaction;
+      this.interactions[interaction.gene2][interaction.gene1] = interaction;
+    });
+    this.emit('dataLoaded', this.getInteractions());
+  }
+
+  updateConfig(config: Partial<SomaticInteractionsConfig>): void {
+    this.config = this.getDefaultConfig({ ...this.config, ...config });
+  }
+
+  getInteractions(): GeneInteraction[] {
+    const interactions: GeneInteraction[] = [];
+    this.genes.forEach((gene1, i) => {
+      this.genes.slice(i + 1).forEach(gene2 => {
+        const interaction = this.interactions[gene1]?.[gene2];
+        if (interaction) interactions.push(interaction);
+      });
+    });
+    return interactions;
+  }
+
+  render(): void {
+    if (this.genes.length < 2) {
+      throw new Error('At least two genes are needed for a somatic interactions plot');
+    }
+
+    const cellSize = this.config.cellSize!;
+    const size = (this.genes.length - 1) * cellSize;
+    const width = MARGIN + GENE_LABEL_WIDTH + size + (this.config.legend ? LEGEND_WIDTH : 0) + MARGIN;
+    const height = MARGIN + size + GENE_LABEL_WIDTH + MARGIN;
+
+    d3.select(this.container).selectAll('svg').remove();
+    this.svg = d3.select(this.container)
+      .append('svg')
+      .attr('width', width)
+      .attr('height', height)
+      .style('font-family', 'Arial, sans-serif')
+      .style('font-size', '12px')
+      .style('display', 'block');
+
+    this.renderMatrix(cellSize);
+    this.renderGeneLabels(cellSize);
+    if (this.config.legend) {
+      this.renderLegend(MARGIN + GENE_LABEL_WIDTH + size + 20);
+    }
+  }
+
+  exportSVG(): string {
+    if (!this.svg) {
+      throw new Error('No SVG available for export');
+    }
+    return new XMLSerializer().serializeToString(this.svg.node()!);
+  }
+
+  destroy(): void {
+    d3.select(this.container).selectAll('svg').remove();
+    this.svg = null;
+    this.removeAllListeners();
+  }
+
+  // Signed -log10(p): positive for co-occurrence, negative for exclusivity, capped at maxLog10P
+  private getScore(interaction: GeneInteraction): number {
+    const p = this.config.useQValues ? interaction.qValue : interaction.pValue;
+    const score = Math.min(-Math.log10(Math.max(p, Number.MIN_VALUE)), this.config.maxLog10P!);
+    return interaction.tendency === 'co-occurrence' ? score : -score;
+  }
+
+  private getColorScale(): d3.ScaleLinear<string, string> {
+    const max = this.config.maxLog10P!;
+    return d3.scaleLinear<string>()
+      .domain([-max, 0, max])
+      .range([this.config.exclusivityColor!, '#ffffff', this.config.coOccurrenceColor!])
+      .clamp(true);
+  }
+
+  private getMarker(interaction: GeneInteraction): string {
+    const p = this.config.useQValues ? interaction.qValue : interaction.pValue;
+    const [strong, weak] = this.config.pValueThresholds!;
+    if (p < strong) return '*';
+    if (p < weak) return '.';
+    return '';
+  }
+
+  private renderMatrix(cellSize: number): void {
+    if (!this.svg) return;
+
+    const color = this.getColorScale();
+    const matrixGroup = this.svg.append('g')
+      .attr('class', 'somatic-interactions-matrix')
+      .attr('transform', `translate(${MARGIN + GENE_LABEL_WIDTH}, ${MARGIN})`);
+
+    // Lower triangle: row gene i against every column gene listed before it
+    for (let i = 1; i < this.genes.length; i++) {
+      for (let j = 0; j < i; j++) {
+        const interaction = this.interactions[this.genes[i]]?.[this.genes[j]];
+        if (!interaction) continue;
+
+        const cell = matrixGroup.append('g')
+          .attr('class', 'interaction-cell')
+          .attr('transform', `translate(${j * cellSize}, ${(i - 1) * cellSize})`)
+          .style('cursor', 'pointer')
+          .on('mouseenter', function () {
+            d3.select(this).select('rect').attr('stroke', '#333333');
+          })
+          .on('mouseleave', function () {
+            d3.select(this).select('rect').attr('stroke', '#ffffff');
+          })
+          .on('click', () => {
+            this.emit('pairClick', interaction);
+          });
+
+        cell.append('rect')
+          .attr('width', cellSize)
+          .attr('height', cellSize)
+          .attr('fill', color(this.getScore(interaction)))
+          .attr('stroke', '#ffffff')
+          .attr('stroke-width', 1)
+          .attr('data-gene1', interaction.gene1)
+          .attr('data-gene2', interaction.gene2);
+
+        const marker = this.getMarker(interaction);
+        if (marker) {
+          cell.append('text')
+            .attr('x', cellSize / 2)
+            .attr('y', cellSize / 2)
+            .attr('dy', marker === '*' ? '0.7em' : '0.1em')
+            .attr('text-anchor', 'middle')
+            .style('font-size', `${Math.round(cellSize * 0.8)}px`)
+            .style('pointer-events', 'none')
+            .text(marker);
+        }
+
+        cell.append('title').text(this.getTooltip(interaction));
+      }
+    }
+  }
+
+  private getTooltip(interaction: GeneInteraction): string {
+    const { gene1, gene2, counts } = interaction;
+    const formatP = (p: number) => (p < 0.001 ? p.toExponential(2) : p.toFixed(3));
+    return [
+      `${gene1} – ${gene2}`,
+      interaction.tendency === 'co-occurrence' ? 'Co-occurrence' : 'Mutual exclusivity',
+      `Both: ${counts.both}, ${gene1} only: ${counts.gene1Only}, ${gene2} only: ${counts.gene2Only}, Neither: ${counts.neither}`,
+      `Log odds ratio: ${interaction.logOddsRatio.toFixed(2)}`,
+      `p = ${formatP(interaction.pValue)}, q = ${formatP(interaction.qValue)}`
+    ].join('\n');
+  }
+
+  private renderGeneLabels(cellSize: number): void {
+    if (!this.svg) return;
+
+    const fontSize = `${Math.min(12, cellSize * 0.7)}px`;
+    const size = (this.genes.length - 1) * cellSize;
+
+    // Row genes on the left
+    const rowGroup = this.svg.append('g')
+      .attr('class', 'gene-labels-rows')
+      .attr('transform', `translate(${MARGIN + GENE_LABEL_WIDTH - 5}, ${MARGIN})`);
+    this.genes.slice(1).forEach((gene, index) => {
+      rowGroup.append('text')
+        .attr('y', index * cellSize + cellSize / 2)
+        .attr('dy', '0.35em')
+        .attr('text-anchor', 'end')
+        .style('font-size', fontSize)
+        .style('cursor', 'pointer')
+        .text(gene)
+        .on('click', () => this.emit('geneClick', { gene }));
+    });
+
+    // Column genes along the bottom
+    const columnGroup = this.svg.append('g')
+      .attr('class', 'gene-labels-columns')
+      .attr('transform', `translate(${MARGIN + GENE_LABEL_WIDTH}, ${MARGIN + size + 5})`);
+    this.genes.slice(0, -1).forEach((gene, index) => {
+      const x = index * cellSize + cellSize / 2;
+      columnGroup.append('text')
+        .attr('transform', `translate(${x}, 0) rotate(-45)`)
+        .attr('text-anchor', 'end')
+        .attr('dy', '0.35em')
+        .style('font-size', fontSize)
+        .style('cursor', 'pointer')
+        .text(gene)
+        .on('click', () => this.emit('geneClick', { gene }));
+    });
+  }
+
+  private renderLegend(x: number): void {
+    if (!this.svg) return;
+
+    const max = this.config.maxLog10P!;
+    const barHeight = 120;
+    const legendGroup = this.svg.append('g')
+      .attr('class', 'legend')
+      .attr('transform', `translate(${x}, ${MARGIN})`);
+
+    legendGroup.append('text')
+      .attr('y', 10)
+      .style('font-weight', 'bold')
+      .style('font-size', '12px')
+      .text(`-log10(${this.config.useQValues ? 'q' : 'P'})`);
+
+    const gradientId = 'somatic-interactions-gradient';
+    const gradient = legendGroup.append('defs')
+      .append('linearGradient')
+      .attr('id', gradientId)
+      .attr('x1', '0%')
+      .attr('y1', '0%')
+      .attr('x2', '0%')
+      .attr('y2', '100%');
+    gradient.append('stop').attr('offset', '0%').attr('stop-color', this.config.coOccurrenceColor!);
+    gradient.append('stop').attr('offset', '50%').attr('stop-color', '#ffffff');
+    gradient.append('stop').attr('offset', '100%').attr('stop-color', this.config.exclusivityColor!);
+
+    legendGroup.append('rect')
+      .attr('y', 20)
+      .attr('width', 12)
+      .attr('height', barHeight)
+      .attr('fill', `url(#${gradientId})`)
+      .attr('stroke', '#cccccc');
+
+    const ticks: Array<[number, string]> = [
+      [20, `≥${max} Co-occurrence`],
+      [20 + barHeight / 2, '0'],
+      [20 + barHeight, `≥${max} Exclusive`]
+    ];
+    ticks.forEach(([y, label]) => {
+      legendGroup.append('text')
+        .attr('x', 18)
+        .attr('y', y)
+        .attr('dy', '0.35em')
+        .style('font-size', '10px')
+        .text(label);
+    });
+
+    const [strong, weak] = this.config.pValueThresholds!;
+    const pLabel = this.config.useQValues ? 'q' : 'P';
+    [`* ${pLabel} < ${strong}`, `. ${pLabel} < ${weak}`].forEach((label, index) => {
+      legendGroup.append('text')
+        .attr('y', 20 + barHeight + 25 + index * 15)
+        .style('font-size', '10px')
+        .text(label);
+    });
+  }
+
+  private getDefaultConfig(config: SomaticInteractionsConfig): SomaticInteractionsConfig {
+    return {
+      genes: config.genes,
+      cellSize: config.cellSize || 20,
+      pValueThresholds: config.pValueThresholds || [0.05, 0.1],
+      useQValues: config.useQValues || false,
+      maxLog10P: config.maxLog10P || 3,
+      coOccurrenceColor: config.coOccurrenceColor || DEFAULT_CO_OCCURRENCE_COLOR,
+      exclusivityColor: config.exclusivityColor || DEFAULT_EXCLUSIVITY_COLOR,
+      legend: config.legend !== false
+    };
+  }
+}
@@ -0,0 +1,271 @@
+import * as d3 from 'd3';
+import { SurvivalComparison, SurvivalPlotConfig, KaplanMeierCurve } from '../types';
+import { EventEmitter } from '../utils';
+
+const DEFAULT_COLORS = ['#e74c3c', '#3498db', '#27ae60', '#8e44ad', '#f39c12', '#16a085', '#7f8c8d'];
+
+const MARGIN = { top: 40, right: 20, bottom: 45, left: 60 };
+const AT_RISK_ROW_HEIGHT = 16;
+
+/**
+ * Kaplan–Meier step curves with censoring ticks, a log-rank p-value and an
+ * optional numbers-at-risk table under the time axis.
+ */
+export class SurvivalRenderer extends EventEmitter {
+  private container: HTMLElement;
+  private svg: d3.Selection<SVGSVGElement, unknown, null, undefined> | null = null;
+  private config: SurvivalPlotConfig;
+  private comparison: SurvivalComparison | null = null;
+
+  constructor(container: HTMLElement, config: SurvivalPlotConfig = {}) {
+    super();
+    this.container = container;
+    this.config = this.getDefaultConfig(config);
+  }
+
+  setData(comparison: SurvivalComparison): void {
+    this.comparison = comparison;
+    this.emit('dataLoaded', comparison);
+  }
+
+  updateConfig(config: Partial<SurvivalPlotConfig>): void {
+    this.config = this.getDefaultConfig({ ...this.config, ...config });
+  }
+
+  render(): void {
+    if (!this.comparison) {
+      throw new Error('No survival data available for rendering');
+    }
+
+    const curves = this.comparison.curves.filter(curve => curve.samples > 0);
+    const width = this.config.width!;
+    const plotWidth = width - MARGIN.left - MARGIN.right;
+    const plotHeight = this.config.height! - MARGIN.top - MARGIN.bottom;
+    const atRiskHeight = this.config.showAtRisk ? 30 + curves.length * AT_RISK_ROW_HEIGHT : 0;
+
+    d3.select(this.container).selectAll('svg').remove();
+    this.svg = d3.select(this.container)
+      .append('svg')
+      .attr('width', width)
+      .attr('height', this.config.height! + atRiskHeight)
+      .style('font-family', 'Arial, sans-serif')
+      .style('font-size', '12px')
+      .style('display', 'block');
+
+    const maxTime = d3.max(curves, curve => d3.max(curve.points, point => point.time)) || 1;
+    const x = d3.scaleLinear().domain([0, maxTime]).range([0, plotWidth]).nice();
+    const y = d3.scaleLinear().domain([0, 1]).range([plotHeight, 0]);
+
+    const plotGroup = this.svg.append('g')
+      .attr('class', 'survival-plot')
+      .attr('transform', `translate(${MARGIN.left}, ${MARGIN.top})`);
+
+    this.renderAxes(plotGroup, x, y, plotWidth, plotHeight);
+    curves.forEach(curve => this.renderCurve(plotGroup, curve, this.getColor(curve), x, y));
+    this.renderLegend(plotGroup, curves, plotWidth);
+
+    if (this.config.title) {
+      this.svg.append('text')
+        .attr('x', MARGIN.left)
+        .attr('y', 20)
+        .style('font-weight', 'bold')
+        .style('font-size', '13px')
+        .text(this.config.title);
+    }
+
+    if (this.config.showAtRisk) {
+      this.renderAtRiskTable(curves, x, this.config.height!);
+    }
+  }
+
+  exportSVG(): string {
+    if (!this.svg) {
+      throw new Error('No SVG available for export');
+    }
+    return new XMLSerializer().serializeToString(this.svg.node()!);
+  }
+
+  destroy(): void {
+    d3.select(this.container).selectAll('svg').remove();
+    this.svg = null;
+    this.removeAllListeners();
+  }
+
+  // Subjects still under follow-up at `time`
+  static atRiskAt(curve: KaplanMeierCurve, time: number): number {
+    return curve.points
+      .filter(point => point.time >= time)
+      .reduce((sum, point) => sum + point.events + point.censored, 0);
+  }
+
+  // By position among all curves, so a group keeps its colour when an empty curve isn't drawn
+  private getColor(curve: KaplanMeierCurve): string {
+    const colors = this.config.colors!;
+    const index = Math.max(0, this.comparison?.curves.indexOf(curve) ?? 0);
+    return colors[index % colors.length];
+  }
+
+  private renderAxes(
+    group: d3.Selection<SVGGElement, unknown, null, undefined>,
+    x: d3.ScaleLinear<number, number>,
+    y: d3.ScaleLinear<number, number>,
+    plotWidth: number,
+    plotHeight: number
+  ): void {
+    group.append('g')
+      .attr('class', 'x-axis')
+      .attr('transform', `translate(0, ${plotHeight})`)
+      .call(d3.axisBottom(x).ticks(6));
+
+    group.append('g')
+      .attr('class', 'y-axis')
+      .call(d3.axisLeft(y).ticks(5).tickFormat(d3.format('.0%')));
+
+    group.append('text')
+      .attr('x', plotWidth / 2)
+      .attr('y', plotHeight + 35)
+      .attr('text-anchor', 'middle')
+      .style('font-size', '11px')
+      .text(this.config.timeLabel!);
+
+    group.append('text')
+      .attr('transform', `translate(-45, ${plotHeight / 2}) rotate(-90)`)
+      .attr('text-anchor', 'middle')
+      .style('font-size', '11px')
+      .text('Survival probability');
+  }
+
+  private renderCurve(
+    group: d3.Selection<SVGGElement, unknown, null, undefined>,
+    curve: KaplanMeierCurve,
+    color: string,
+    x: d3.ScaleLinear<number, number>,
+    y: d3.ScaleLinear<number, number>
+  ): void {
+    // Start at S(0) = 1 and hold each value until the next step
+    const steps: Array<[number, number]> = [[0, 1], ...curve.points.map(point => [point.time, point.survival] as [number, number])];
+    const line = d3.line<[number, number]>()
+      .x(([time]) => x(time))
+      .y(([, survival]) => y(survival))
+      .curve(d3.curveStepAfter);
+
+    const curveGroup = group.append('g')
+      .attr('class', 'survival-curve')
+      .attr('data-group', curve.name);
+
+    curveGroup.append('path')
+      .attr('d', line(steps))
+      .attr('fill', 'none')
+      .attr('stroke', color)
+      .attr('stroke-width', 2)
+      .append('title')
+      .text(`${curve.name}: n = ${curve.samples}, events = ${curve.events}, median = ${curve.medianSurvival !== undefined ? curve.medianSurvival.toFixed(1) : 'not reached'}`);
+
+    if (this.config.showCensored) {
+      curve.points.filter(point => point.censored > 0).forEach(point => {
+        const cx = x(point.time);
+        const cy = y(point.survival);
+        curveGroup.append('line')
+          .attr('class', 'censor-tick')
+          .attr('x1', cx)
+          .attr('x2', cx)
+          .attr('y1', cy - 4)
+          .attr('y2', cy + 4)
+          .attr('stroke', color)
+          .attr('stroke-width', 1.5);
+      });
+    }
+  }
+
+  private renderLegend(
+    group: d3.Selection<SVGGElement, unknown, null, undefined>,
+    curves: KaplanMeierCurve[],
+    plotWidth: number
+  ): void {
+    const legendGroup = group.append('g')
+      .attr('class', 'legend')
+      .attr('transform', `translate(${plotWidth - 150}, 5)`);
+
+    curves.forEach((curve, index) => {
+      const itemGroup = legendGroup.append('g')
+        .attr('transform', `translate(0, ${index * 16})`);
+
+      itemGroup.append('line')
+        .attr('x1', 0)
+        .attr('x2', 16)
+        .attr('y1', 6)
+        .attr('y2', 6)
+        .attr('stroke', this.getColor(curve))
+        .attr('stroke-width', 2);
+
+      itemGroup.append('text')
+        .attr('x', 22)
+        .attr('y', 6)
+        .attr('dy', '0.35em')
+        .style('font-size', '10px')
+        .text(`${curve.name} (n = ${curve.samples})`);
+    });
+
+    const logRank = this.comparison?.logRank;
+    if (logRank) {
+      const p = logRank.pValue < 0.001 ? logRank.pValue.toExponential(2) : logRank.pValue.toFixed(3);
+      legendGroup.append('text')
+        .attr('class', 'log-rank')
+        .attr('y', curves.length * 16 + 10)
+        .style('font-size', '10px')
+        .text(`Log-rank p = ${p}`);
+    }
+  }
+
+  private renderAtRiskTable(
+    curves: KaplanMeierCurve[],
+    x: d3.ScaleLinear<number, number>,
+    top: number
+  ): void {
+    if (!this.svg) return;
+
+    const tableGroup = this.svg.append('g')
+      .attr('class', 'at-risk-table')
+      .attr('transform', `translate(${MARGIN.left}, ${top})`);
+
+    tableGroup.append('text')
+      .attr('x', -MARGIN.left + 5)
+      .attr('y', 10)
+      .style('font-weight', 'bold')
+      .style('font-size', '10px')
+      .text('Number at risk');
+
+    const ticks = x.ticks(6);
+    curves.forEach((curve, index) => {
+      const rowY = 30 + index * AT_RISK_ROW_HEIGHT;
+      tableGroup.append('text')
+        .attr('x', -8)
+        .attr('y', rowY)
+        .attr('text-anchor', 'end')
+        .style('font-size', '10px')
+        .style('fill', this.getColor(curve))
+        .text(curve.name);
+
+      ticks.forEach(time => {
+        tableGroup.append('text')
+          .attr('x', x(time))
+          .attr('y', rowY)
+          .attr('text-anchor', 'middle')
+          .style('font-size', '10px')
+          .text(SurvivalRenderer.atRiskAt(curve, time));
+      });
+    });
+  }
+
+  private getDefaultConfig(config: SurvivalPlotConfig): SurvivalPlotConfig {
+    return {
+      width: config.width || 500,
+      height: config.height || 320,
+      colors: config.colors && config.colors.length > 0 ? config.colors : DEFAULT_COLORS,
+      timeLabel: config.timeLabel || 'Months',
+      title: config.title,
+      showAtRisk: config.showAtRisk !== false,
+      showCensored: config.showCensored !== false
+    };
+  }
+}
@@ -0,0 +1,51 @@
+import { DataProcessor } from '../../core/DataProcessor';
+import { CoOncoprintRenderer } from '../CoOncoprintRenderer';
+
+// jsdom has no layout; labels are measured for the legend and tooltips
+Object.assign(SVGElement.prototype, { getBBox: () => ({ x: 0, y: 0, width: 10, height: 10 }) });
+
+describe('CoOncoprintRenderer', () => {
+  const row = (gene: string, sample: string) => ({
+    Hugo_Symbol: gene, Tumor_Sample_Barcode: sample, Variant_Classification: 'Missense_Mutation'
+  });
+  const primary = DataProcessor.processData([row('KRAS', 'P1'), row('KRAS', 'P2'), row('TP53', 'P1')]);
+  const relapse = DataProcessor.processData([row('TP53', 'R1'), row('TP53', 'R2'), row('TP53', 'R3'), row('EGFR', 'R1')]);
+
+  it('should draw both cohorts with the shared genes in the same rows', () => {
+    const container = document.createElement('div');
+    const renderer = new CoOncoprintRenderer(container, { names: ['Primary', 'Relapse'] });
+    renderer.setData(primary, relapse);
+    renderer.render();
+
+    expect(renderer.getGeneOrder()).toEqual(['TP53', 'KRAS', 'EGFR']);
+
+    const panels = Array.from(container.querySelectorAll('.co-oncoprint-panel'));
+    expect(panels.map(panel => panel.querySelector('.co-oncoprint-header')!.textContent))
+      .toEqual(['Primary (n = 2)', 'Relapse (n = 3)']);
+
+    // Gene → label row in each panel, including genes a cohort has no alterations in
+    const rows = panels.map(panel => Object.fromEntries(
+      Array.from(panel.querySelectorAll('.gene-labels text')).map(label => [label.textContent, label.getAttribute('y')])
+    ));
+    expect(Object.keys(rows[0]).sort()).toEqual(['EGFR', 'KRAS', 'TP53']);
+    expect(rows[1]).toEqual(rows[0]);
+    expect(Number(rows[0].TP53)).toBeLessThan(Number(rows[0].KRAS));
+    expect(Number(rows[0].KRAS)).toBeLessThan(Number(rows[0].EGFR));
+  });
+
+  it('should export both panels side by side under their cohort headers', () => {
+    const container = document.createElement('div');
+    const renderer = new CoOncoprintRenderer(container, { names: ['Primary', 'Relapse'] });
+    expect(() => renderer.exportSVG()).toThrow('No SVG available');
+    renderer.setData(primary, relapse);
+    renderer.render();
+
+    const svg = new DOMParser().parseFromString(renderer.exportSVG(), 'image/svg+xml').documentElement;
+    const panels = Array.from(svg.children).filter(child => child.tagName === 'svg');
+    expect(panels).toHaveLength(2);
+    expect(Number(panels[1].getAttribute('x'))).toBeGreaterThan(Number(panels[0].getAttribute('x')));
+
+    const headers = Array.from(svg.children).filter(child => child.tagName === 'text').map(text => text.textContent);
+    expect(headers).toEqual(['Primary (n = 2)', 'Relapse (n = 3)']);
+  });
+});
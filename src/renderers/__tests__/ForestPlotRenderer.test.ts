@@ -0,0 +1,44 @@
+import { CohortComparison, GeneCohortComparison } from '../../types';
+import { ForestPlotRenderer } from '../ForestPlotRenderer';
+
+describe('ForestPlotRenderer', () => {
+  const result = (gene: string, oddsRatio: number, pValue: number): GeneCohortComparison => ({
+    gene,
+    cohort1Altered: 6,
+    cohort1Size: 20,
+    cohort2Altered: 2,
+    cohort2Size: 20,
+    cohort1Frequency: 0.3,
+    cohort2Frequency: 0.1,
+    oddsRatio,
+    ciLower: oddsRatio / 4,
+    ciUpper: oddsRatio * 4,
+    pValue,
+    qValue: pValue * 3
+  });
+  const comparison: CohortComparison = {
+    cohort1: { name: 'Primary', samples: 20 },
+    cohort2: { name: 'Relapse', samples: 20 },
+    genes: [result('TP53', 8, 0.001), result('KRAS', 0.2, 0.02), result('EGFR', 1.1, 0.6)]
+  };
+
+  it('should draw one row per gene under the p-value threshold, coloured by direction', () => {
+    const container = document.createElement('div');
+    const renderer = new ForestPlotRenderer(container, { pValueThreshold: 0.05 });
+    renderer.setData(comparison);
+    renderer.render();
+
+    const rows = Array.from(container.querySelectorAll('.forest-plot-row'));
+    expect(rows.map(row => row.getAttribute('data-gene'))).toEqual(['TP53', 'KRAS']);
+    const fills = rows.map(row => row.querySelector('rect')!.getAttribute('fill'));
+    expect(fills[0]).not.toBe(fills[1]);
+    expect(rows[0].textContent).toContain('6 (30%)');
+    expect(renderer.exportSVG()).toContain('Odds ratio (log scale)');
+  });
+
+  it('should filter on q-values when asked', () => {
+    const renderer = new ForestPlotRenderer(document.createElement('div'), { pValueThreshold: 0.05, useQValues: true });
+    renderer.setData(comparison);
+    expect(renderer.getDisplayedGenes().map(row => row.gene)).toEqual(['TP53']);
+  });
+});
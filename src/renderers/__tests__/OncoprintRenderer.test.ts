@@ -0,0 +1,239 @@
+import { DataProcessor } from '../../core/DataProcessor';
+import { OncoprintVisualizer } from '../../core/OncoprintVisualizer';
+import { OncoprintRenderer } from '../OncoprintRenderer';
+
+// jsdom has no layout; labels are measured for the legend and tooltips
+Object.assign(SVGElement.prototype, { getBBox: () => ({ x: 0, y: 0, width: 10, height: 10 }) });
+
+describe('OncoprintRenderer', () => {
+  const row = (gene: string, sample: string, variant = 'Missense_Mutation') => ({
+    Hugo_Symbol: gene, Tumor_Sample_Barcode: sample, Variant_Classification: variant
+  });
+
+  describe('mutation load track', () => {
+    const data = DataProcessor.processData(
+      [
+        row('KRAS', 'S1'), row('TP53', 'S1'), row('EGFR', 'S1', 'Nonsense_Mutation'),
+        row('KRAS', 'S2'),
+        row('TP53', 'S3', 'Frame_Shift_Del'),
+        row('EGFR', 'S4', 'Nonsense_Mutation')
+      ],
+      [
+        { Tumor_Sample_Barcode: 'S1', arm: 'A' }, { Tumor_Sample_Barcode: 'S2', arm: 'A' },
+        { Tumor_Sample_Barcode: 'S3', arm: 'B' }, { Tumor_Sample_Barcode: 'S4', arm: 'B' }
+      ]
+    );
+    const segment = (container: HTMLElement, sample: string, variant: string) =>
+      container.querySelector(`.mutation-load-track rect[data-sample="${sample}"][data-variant="${variant}"]`);
+    const matrixY = (container: HTMLElement) =>
+      Number(/translate\([^,]+,\s*([^)]+)\)/.exec(container.querySelector('.oncoprint-matrix')!.getAttribute('transform')!)![1]);
+
+    it('should stack one segment per variant class, scaled to the largest total', () => {
+      const container = document.createElement('div');
+      const renderer = new OncoprintRenderer(container, { showTotals: true, cellWidth: 10 });
+      renderer.setData(data);
+      renderer.render();
+
+      const missense = segment(container, 'S1', 'Missense_Mutation')!;
+      const nonsense = segment(container, 'S1', 'Nonsense_Mutation')!;
+      expect(missense.getAttribute('data-count')).toBe('2');
+      expect(nonsense.getAttribute('data-count')).toBe('1');
+      // S1 holds the largest total (3) and fills the 50px track
+      expect(Number(missense.getAttribute('height'))).toBeCloseTo(100 / 3);
+      expect(Number(nonsense.getAttribute('height'))).toBeCloseTo(50 / 3);
+      expect(Number(nonsense.getAttribute('y'))).toBeCloseTo(0);
+      expect(Number(segment(container, 'S2', 'Missense_Mutation')!.getAttribute('height'))).toBeCloseTo(50 / 3);
+
+      // The track and its gap push the matrix down
+      const withoutTotals = document.createElement('div');
+      const plain = new OncoprintRenderer(withoutTotals, { cellWidth: 10 });
+      plain.setData(data);
+      plain.render();
+      expect(withoutTotals.querySelector('.mutation-load-track')).toBeNull();
+      expect(matrixY(container) - matrixY(withoutTotals)).toBe(60);
+    });
+
+    it('should line bars up with split groups and keep the track in the full-size export', () => {
+      const container = document.createElement('div');
+      const renderer = new OncoprintRenderer(container, { showTotals: true, cellWidth: 10, splitBy: { field: 'arm', gapSize: 20 } });
+      renderer.setData(data);
+      renderer.render();
+
+      const x = (sample: string, variant: string) => Number(segment(container, sample, variant)!.getAttribute('x'));
+      const groupA = [x('S1', 'Missense_Mutation'), x('S2', 'Missense_Mutation')].sort((a, b) => a - b);
+      const groupB = [x('S3', 'Frame_Shift_Del'), x('S4', 'Nonsense_Mutation')].sort((a, b) => a - b);
+      expect(groupA).toEqual([1, 11]);
+      // Second group starts after two cells and the gap
+      expect(groupB).toEqual([41, 51]);
+      expect(x('S1', 'Nonsense_Mutation')).toBe(x('S1', 'Missense_Mutation'));
+
+      const exported = new DOMParser().parseFromString(renderer['createFullSizeExportSVG'](), 'image/svg+xml');
+      expect(exported.querySelectorAll('.mutation-load-track rect[data-variant]')).toHaveLength(5);
+    });
+  });
+
+  describe('gene bars', () => {
+    it('should stack mutation classes before copy-number calls on each gene row', () => {
+      const data = DataProcessor.processData(
+        [row('KRAS', 'S1'), row('KRAS', 'S2'), row('TP53', 'S1', 'Nonsense_Mutation'), row('TP53', 'S4', 'Nonsense_Mutation')],
+        undefined,
+        undefined,
+        { copyNumber: [{ gene: 'KRAS', sample: 'S3', type: 'AMP' }, { gene: 'KRAS', sample: 'S1', type: 'AMP' }] }
+      );
+      const container = document.createElement('div');
+      const renderer = new OncoprintRenderer(container, { showGeneBars: true, cellHeight: 20 });
+      renderer.setData(data);
+      renderer.render();
+
+      // Top row first, each row's segments left to right
+      const bars = Array.from(container.querySelectorAll('.gene-bars rect'))
+        .sort((a, b) => Number(a.getAttribute('y')) - Number(b.getAttribute('y')) || Number(a.getAttribute('x')) - Number(b.getAttribute('x')));
+      expect(bars.map(bar => [bar.getAttribute('data-gene'), bar.getAttribute('data-category'), bar.getAttribute('data-count')])).toEqual([
+        ['KRAS', 'Missense_Mutation', '2'],
+        // S1's amplification is drawn under its mutation, so only S3 counts here
+        ['KRAS', 'AMP', '1'],
+        ['TP53', 'Nonsense_Mutation', '2']
+      ]);
+      const [missense, amp, nonsense] = bars.map(bar => ({
+        x: Number(bar.getAttribute('x')), y: Number(bar.getAttribute('y')), width: Number(bar.getAttribute('width'))
+      }));
+      expect(missense.x).toBe(0);
+      expect(amp.x).toBeCloseTo(missense.width);
+      expect(amp.width).toBeCloseTo(missense.width / 2);
+      expect(nonsense.width).toBeCloseTo(missense.width);
+      // One bar per matrix row, inset from the row edges
+      expect(missense.y).toBeCloseTo(3);
+      expect(nonsense.y).toBeCloseTo(23);
+    });
+  });
+
+  describe('gene sets', () => {
+    // S3 and S4 were sequenced on a panel that covers TP53 only
+    const data = DataProcessor.processData(
+      [row('KRAS', 'S1'), row('NRAS', 'S1'), row('TP53', 'S3')],
+      undefined,
+      { samples: ['S1', 'S2', 'S3', 'S4'] },
+      { genePanels: { samplePanels: { S3: 'TP53-only', S4: 'TP53-only' }, panels: { 'TP53-only': ['TP53'] } } }
+    );
+    const geneSets = {
+      sets: [{ name: 'RAS', genes: ['KRAS', 'NRAS'] }, { name: 'p53', genes: ['TP53'] }],
+      gap: 8
+    };
+
+    it('should draw each set as a block headed by a summary row', () => {
+      const container = document.createElement('div');
+      const renderer = new OncoprintRenderer(container, { geneSets, geneLabels: true, cellHeight: 20 });
+      renderer.setData(data);
+      renderer.render();
+
+      expect(Array.from(container.querySelectorAll('.gene-set-label')).map(label => label.getAttribute('data-gene-set')))
+        .toEqual(['RAS', 'p53']);
+      const summary = (set: string, sample: string) =>
+        container.querySelector(`.gene-set-summaries rect[data-gene-set="${set}"][data-sample="${sample}"]`)!;
+      expect(summary('RAS', 'S1').getAttribute('data-altered')).toBe('true');
+      expect(summary('RAS', 'S3').getAttribute('data-altered')).toBe('false');
+      expect(summary('p53', 'S3').getAttribute('data-altered')).toBe('true');
+      expect(summary('p53', 'S4').getAttribute('data-altered')).toBe('false');
+
+      // Rows: RAS, KRAS, NRAS, then p53 after the block gap
+      expect(Number(summary('RAS', 'S1').getAttribute('y'))).toBe(1);
+      expect(Number(summary('p53', 'S1').getAttribute('y'))).toBe(3 * 20 + 8 + 1);
+      const tp53Cell = container.querySelector('.oncoprint-matrix rect[data-gene="TP53"][data-sample="S3"]')!;
+      expect(Number(tp53Cell.getAttribute('y'))).toBe(4 * 20 + 8 + 1);
+    });
+
+    it('should give the summary row the altered share of samples profiled for any gene in the set', () => {
+      const container = document.createElement('div');
+      const renderer = new OncoprintRenderer(container, { geneSets, geneLabels: true, showPercentages: true });
+      renderer.setData(data);
+      renderer.render();
+
+      // RAS: 1 of the 2 samples whose panel covers KRAS or NRAS; p53: 1 of 4
+      expect(Array.from(container.querySelectorAll('.gene-frequencies text')).map(text => text.textContent))
+        .toEqual(['50%', '50%', '50%', '25%', '25%']);
+    });
+  });
+
+  describe('pathway rows', () => {
+    it('should expand a pathway row when its label is clicked', async () => {
+      const container = document.createElement('div');
+      const visualizer = new OncoprintVisualizer(container, { pathways: {}, showTotals: true, geneLabels: true });
+      await visualizer.loadMafData([
+        { Hugo_Symbol: 'KRAS', Tumor_Sample_Barcode: 'S1', Variant_Classification: 'Missense_Mutation' },
+        { Hugo_Symbol: 'BRAF', Tumor_Sample_Barcode: 'S2', Variant_Classification: 'Missense_Mutation' },
+        { Hugo_Symbol: 'TP53', Tumor_Sample_Barcode: 'S1', Variant_Classification: 'Nonsense_Mutation' }
+      ]);
+      visualizer.render();
+      expect(visualizer.getDisplayedGenes()).toEqual(['RTK-RAS', 'TP53 pathway']);
+
+      container.querySelector('.gene-labels text[data-gene="RTK-RAS"]')!.dispatchEvent(new MouseEvent('click'));
+      expect(visualizer.getDisplayedGenes()).toEqual(['RTK-RAS', 'BRAF', 'KRAS', 'TP53 pathway']);
+      expect(container.querySelectorAll('.oncoprint-matrix rect[data-gene="KRAS"][data-sample="S1"]')).toHaveLength(1);
+
+      // Neither the pathway copies nor the expanded genes' own rows add to the counts
+      expect(visualizer.getMutationStats().totalMutations).toBe(3);
+      expect(Array.from(container.querySelectorAll('.mutation-load-track rect[data-sample="S1"]'))
+        .map(bar => bar.getAttribute('data-count'))).toEqual(['1', '1']);
+    });
+  });
+
+  describe('dendrograms', () => {
+    it('should draw the sample tree above the matrix and the gene tree left of the labels', () => {
+      const data = DataProcessor.processData([
+        row('TP53', 'S1'), row('TP53', 'S3'), row('KRAS', 'S2'), row('KRAS', 'S4'), row('PTEN', 'S1')
+      ]);
+      const container = document.createElement('div');
+      const renderer = new OncoprintRenderer(container, {
+        sortSamples: 'cluster', sortGenes: 'cluster', geneLabels: true, cellWidth: 10, cellHeight: 20,
+        clustering: { dendrogramSize: 40 }
+      });
+      renderer.setData(data);
+      renderer.render();
+
+      const translate = (selector: string) => container.querySelector(selector)!.getAttribute('transform');
+      const points = (selector: string) => Array.from(container.querySelectorAll(`${selector} path`))
+        .flatMap(path => Array.from(path.getAttribute('d')!.matchAll(/(-?[\d.]+),(-?[\d.]+)/g), ([, x, y]) => [Number(x), Number(y)]));
+
+      // The matrix moves down and the labels right by the tree size and its 5px gap
+      expect(translate('.oncoprint-matrix')).toBe('translate(185, 65)');
+      expect(translate('.gene-labels')).toBe('translate(65, 65)');
+      expect(translate('.sample-dendrogram')).toBe('translate(185, 20)');
+      expect(translate('.gene-dendrogram')).toBe('translate(20, 65)');
+
+      // One elbow per merge, leaves at the cell centres and the root at the outer edge
+      expect(container.querySelectorAll('.sample-dendrogram path')).toHaveLength(3);
+      const samplePoints = points('.sample-dendrogram');
+      expect(samplePoints.filter(([, y]) => y === 40).map(([x]) => x)).toEqual(expect.arrayContaining([5, 15, 25, 35]));
+      expect(Math.min(...samplePoints.map(([, y]) => y))).toBe(0);
+
+      expect(container.querySelectorAll('.gene-dendrogram path')).toHaveLength(2);
+      const genePoints = points('.gene-dendrogram');
+      expect(genePoints.filter(([x]) => x === 40).map(([, y]) => y)).toEqual(expect.arrayContaining([10, 30, 50]));
+      expect(Math.min(...genePoints.map(([x]) => x))).toBe(0);
+    });
+  });
+
+  describe('clinical enrichment', () => {
+    const data = DataProcessor.processData(
+      [row('KRAS', 'S1'), row('KRAS', 'S2'), row('TP53', 'S3')],
+      ['S1', 'S2', 'S3'].map(sample => ({ Tumor_Sample_Barcode: sample, stage: 'I' }))
+    );
+
+    it('should report a failed test once as an error event instead of warning on every render', () => {
+      const container = document.createElement('div');
+      const renderer = new OncoprintRenderer(container, { clinicalEnrichment: { field: 'stage' } });
+      const onError = jest.fn();
+      const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+      renderer.on('error', onError);
+      renderer.setData(data);
+      renderer.render();
+      renderer.render();
+
+      // A single group can't be compared with the rest of the cohort
+      expect(onError).toHaveBeenCalledTimes(1);
+      expect(warn).not.toHaveBeenCalled();
+      expect(container.querySelectorAll('.gene-labels text').length).toBeGreaterThan(0);
+      warn.mockRestore();
+    });
+  });
+});
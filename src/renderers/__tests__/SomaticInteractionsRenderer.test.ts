@@ -0,0 +1,43 @@
+import { DataProcessor } from '../../core/DataProcessor';
+import { SomaticInteractionsRenderer } from '../SomaticInteractionsRenderer';
+
+describe('SomaticInteractionsRenderer', () => {
+  const row = (gene: string, sample: string) => ({
+    Hugo_Symbol: gene, Tumor_Sample_Barcode: sample, Variant_Classification: 'Missense_Mutation'
+  });
+  const data = DataProcessor.processData([
+    ...['S1', 'S2', 'S3', 'S4'].map(sample => row('KRAS', sample)),
+    ...['S5', 'S6', 'S7', 'S8'].map(sample => row('EGFR', sample)),
+    ...['S1', 'S2', 'S3'].map(sample => row('STK11', sample))
+  ]);
+
+  it('should draw one cell per gene pair, marked and coloured by direction', () => {
+    const container = document.createElement('div');
+    const renderer = new SomaticInteractionsRenderer(container, { genes: ['KRAS', 'EGFR', 'STK11'] });
+    renderer.setData(data);
+    renderer.render();
+
+    const cells = Array.from(container.querySelectorAll('.interaction-cell rect'));
+    expect(cells.map(cell => [cell.getAttribute('data-gene1'), cell.getAttribute('data-gene2')])).toEqual([
+      ['KRAS', 'EGFR'],
+      ['KRAS', 'STK11'],
+      ['EGFR', 'STK11']
+    ]);
+    // KRAS/EGFR is exclusive at p = 1/70; the others don't reach 0.05
+    expect(container.querySelectorAll('.interaction-cell text')[0].textContent).toBe('*');
+    expect(cells[0].getAttribute('fill')).not.toBe(cells[1].getAttribute('fill'));
+    expect(renderer.exportSVG()).toContain('<svg');
+  });
+
+  it('should emit the tested pair on click', () => {
+    const container = document.createElement('div');
+    const renderer = new SomaticInteractionsRenderer(container, { genes: ['KRAS', 'EGFR'] });
+    const onClick = jest.fn();
+    renderer.on('pairClick', onClick);
+    renderer.setData(data);
+    renderer.render();
+
+    (container.querySelector('.interaction-cell') as SVGGElement).dispatchEvent(new MouseEvent('click'));
+    expect(onClick).toHaveBeenCalledWith(expect.objectContaining({ gene1: 'KRAS', gene2: 'EGFR', tendency: 'mutual-exclusivity' }));
+  });
+});
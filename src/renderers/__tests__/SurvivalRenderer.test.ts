@@ -0,0 +1,56 @@
+import { SurvivalAnalysis } from '../../core/SurvivalAnalysis';
+import { SurvivalRenderer } from '../SurvivalRenderer';
+
+describe('SurvivalRenderer', () => {
+  const comparison = {
+    curves: [
+      SurvivalAnalysis.kaplanMeier('Altered', []),
+      SurvivalAnalysis.kaplanMeier('Unaltered', [
+        { sample: 'S1', time: 5, event: true },
+        { sample: 'S2', time: 10, event: false },
+        { sample: 'S3', time: 20, event: true }
+      ])
+    ]
+  };
+
+  it('should draw non-empty curves with censor ticks and a numbers-at-risk table', () => {
+    const container = document.createElement('div');
+    const renderer = new SurvivalRenderer(container);
+    renderer.setData(comparison);
+    renderer.render();
+
+    const curves = container.querySelectorAll('.survival-curve');
+    expect(Array.from(curves).map(curve => curve.getAttribute('data-group'))).toEqual(['Unaltered']);
+    expect(container.querySelectorAll('.censor-tick')).toHaveLength(1);
+
+    // Ticks at 0, 5, 10, 15 and 20 months
+    const table = Array.from(container.querySelectorAll('.at-risk-table text')).map(text => text.textContent);
+    expect(table).toEqual(['Number at risk', 'Unaltered', '3', '3', '2', '1', '1']);
+
+    const svg = renderer.exportSVG();
+    expect(svg).toContain('<svg');
+    expect(svg).toContain('censor-tick');
+  });
+
+  it('should keep each group\'s colour when an empty curve is left out', () => {
+    const container = document.createElement('div');
+    const renderer = new SurvivalRenderer(container, { colors: ['red', 'blue'] });
+    renderer.setData(comparison);
+    renderer.render();
+
+    expect(container.querySelector('.survival-curve path')!.getAttribute('stroke')).toBe('blue');
+    expect(container.querySelector('.censor-tick')!.getAttribute('stroke')).toBe('blue');
+    expect(container.querySelector('.legend line')!.getAttribute('stroke')).toBe('blue');
+  });
+
+  it('should draw only the plot when the at-risk table and censor ticks are turned off', () => {
+    const container = document.createElement('div');
+    const renderer = new SurvivalRenderer(container, { showAtRisk: false, showCensored: false });
+    renderer.setData(comparison);
+    renderer.render();
+
+    expect(container.querySelector('.at-risk-table')).toBeNull();
+    expect(container.querySelectorAll('.censor-tick')).toHaveLength(0);
+    expect(container.querySelector('svg')!.getAttribute('height')).toBe('320');
+  });
+});
@@ -1 +1,5 @@
-export { OncoprintRenderer, type RendererDimensions } from './OncoprintRenderer';
\ No newline at end of file
+export { OncoprintRenderer, type RendererDimensions } from './OncoprintRenderer';
+export { SomaticInteractionsRenderer } from './SomaticInteractionsRenderer';
+export { SurvivalRenderer } from './SurvivalRenderer';
+export { ForestPlotRenderer } from './ForestPlotRenderer';
+export { CoOncoprintRenderer } from './CoOncoprintRenderer';
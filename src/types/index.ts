@@ -19,9 +19,76 @@ export interface ProcessedMutation {
   sample: string;
   variantType: string;
   proteinChange?: string;
+  fusionName?: string;    // e.g. 'BCR::ABL1', for Fusion events
+  fusionPartner?: string; // The other gene in the fusion
+  breakpoint?: string;    // This gene's fusion breakpoint, e.g. 'chr22:23290413:+'
+  pathwayGene?: string;   // Member gene, on a mutation collapsed into a pathway row
+  hits?: ProcessedMutation[]; // The mutations merged into a Multi_Hit cell
   [key: string]: any;
 }
 
+// Discrete copy-number calls, as in cBioPortal and GISTIC thresholded tables (2, 1, -1, -2)
+export type CnaType = 'AMP' | 'GAIN' | 'HETLOSS' | 'HOMDEL';
+
+export interface CopyNumberAlteration {
+  gene: string;
+  sample: string;
+  type: CnaType;
+  value?: number; // Value as read from the source table
+  pathwayGene?: string; // Member gene, on a call collapsed into a pathway row
+}
+
+export interface CnaParseOptions {
+  includeShallow?: boolean; // Keep GAIN and HETLOSS calls as well as AMP and HOMDEL (default: false)
+}
+
+export interface FusionParseOptions {
+  sampleName?: string; // Barcode for single-sample caller output without a sample column
+}
+
+// Gene × sample numeric matrix, e.g. mRNA or protein expression
+export interface ExpressionMatrix {
+  genes: string[];
+  samples: string[];
+  values: Record<string, Record<string, number>>; // gene → sample → value; missing values are absent
+}
+
+export interface ExpressionAlteration {
+  gene: string;
+  sample: string;
+  direction: 'UP' | 'DOWN';
+  zScore: number;
+}
+
+export interface ExpressionConfig {
+  zScoreThreshold?: number;    // |z| at or beyond which a sample is an outlier (default: 2)
+  upThreshold?: number;        // Overrides zScoreThreshold for high expression
+  downThreshold?: number;      // Overrides -zScoreThreshold for low expression, e.g. -1.5
+  referenceSamples?: string[]; // Samples the mean and SD come from (default: all samples)
+  logTransform?: boolean;      // Use log2(value + 1) before scoring, for RNA-seq counts (default: false)
+  upColor?: string;
+  downColor?: string;
+}
+
+export interface GenePanel {
+  id: string;
+  genes: string[];
+}
+
+// Which genes were sequenced in which samples, for cohorts mixing WES and targeted panels
+export interface GenePanelData {
+  samplePanels: Record<string, string>; // sample → panel ID; unlisted samples count as profiled for every gene
+  panels: Record<string, string[]>;     // panel ID → genes it covers
+}
+
+export interface ProcessDataOptions {
+  classificationMap?: Record<string, string>; // Passed on to VariantClassificationNormalizer
+  copyNumber?: CopyNumberAlteration[];        // Merged in as a separate alteration layer
+  expression?: ExpressionAlteration[];        // Outliers on genes and samples already in the data
+  expressionSamples?: string[];               // Samples in the expression matrix, the expression frequency base
+  genePanels?: GenePanelData;                 // Limits frequency denominators to profiled samples
+}
+
 export interface ProcessedMetadata {
   fields: string[];
   data: Record<string, Record<string, string | number>>;
@@ -52,6 +119,10 @@ export interface ProcessedData {
   genes: string[];
   samples: string[];
   mutations: ProcessedMutation[];
+  copyNumber?: CopyNumberAlteration[]; // Present when copy-number data was loaded
+  expression?: ExpressionAlteration[]; // Present when expression data was loaded
+  expressionSamples?: string[];        // Plotted samples with expression values
+  genePanels?: GenePanelData; // Present when gene-panel coverage was loaded
   geneCounts: Record<string, number>;
   sampleCounts: Record<string, number>;
   metadata: ProcessedMetadata;
@@ -62,6 +133,40 @@ export interface ProcessedData {
     missingSamples?: string[];
   };
   sampleGroups?: SampleGroup[]; // Groups for split visualization
+  variantClassifications?: VariantClassificationReport; // How Variant_Classification terms were normalised
+  excludedVariantCounts?: Record<string, number>; // Rows dropped by `includeVariantClasses`, per class
+  tmb?: Record<string, SampleTmb>; // Tumor mutational burden per sample, counted on the whole MAF
+  pathways?: Record<string, string[]>; // Pathway rows → member genes in the data, when collapsed to pathways
+}
+
+export interface TmbOptions {
+  captureSize?: number;                        // Megabases sequenced per sample (default: 50, an exome)
+  sampleCaptureSizes?: Record<string, number>; // Per-sample megabases, overriding everything else
+  panelCaptureSizes?: Record<string, number>;  // Megabases per gene panel id, used with gene-panel data
+  nonSynonymousOnly?: boolean;                 // Count only non-synonymous classes (default: true)
+  highThreshold?: number;                      // Mutations/Mb at which a sample is TMB-high (default: 10)
+  highPercentile?: number;                     // Flag samples at or above this cohort percentile instead
+}
+
+export interface SampleTmb {
+  mutations: number;   // Variants counted
+  captureSize: number; // Megabases the count is divided by
+  tmb: number;         // Mutations per megabase
+  percentile: number;  // Percent of cohort samples with the same or lower TMB
+  high: boolean;
+}
+
+export interface TmbTrackConfig extends TmbOptions {
+  track?: boolean;     // Draw the bar chart above the matrix (default: true)
+  height?: number;     // Default: 40
+  color?: string;      // Default: grey
+  highColor?: string;  // Bars of TMB-high samples (default: red)
+  logScale?: boolean;  // log10(TMB + 1) bar heights, for cohorts with hypermutators
+}
+
+export interface VariantClassificationReport {
+  mapped: Record<string, string>; // Source term → MAF class it was renamed to
+  unmapped: Record<string, number>; // Terms with no known MAF class → number of rows
 }
 
 export interface MetadataTrackConfig {
@@ -97,6 +202,7 @@ export interface OncoprintConfig {
   // Data settings
   geneList?: string[];
   sampleList?: string[];
+  includeVariantClasses?: string[] | 'all'; // Variant classes to plot (default: non-synonymous classes)
 
   // Visual settings
   cellWidth?: number;
@@ -106,6 +212,14 @@ export interface OncoprintConfig {
 
   // Color scheme
   variantColors?: Record<string, string>;
+  variantClassificationMap?: Record<string, string>; // Term → MAF class, applied before the built-in mapping
+  cnaColors?: Partial<Record<CnaType, string>>;
+
+  // Expression outliers
+  expression?: ExpressionConfig;
+
+  // Tumor mutational burden: how it is counted, and the bar track above the matrix
+  tmb?: TmbTrackConfig;
 
   // Metadata tracks (legacy support)
   metadataFields?: string[];
@@ -114,11 +228,21 @@ export interface OncoprintConfig {
   // Enhanced metadata configuration
   metadata?: MetadataConfig;
 
+  // Which genes get a row (default: the 25 most altered)
+  geneSelection?: GeneSelectionConfig;
+
+  // Genes grouped into labelled row blocks, e.g. pathways
+  geneSets?: GeneSetConfig;
+
+  // One row per pathway instead of per gene
+  pathways?: PathwayConfig;
+
   // Sorting & ordering
-  sortGenes?: 'frequency' | 'alphabetical' | 'custom';
-  sortSamples?: 'mutation_load' | 'alphabetical' | 'custom' | 'oncoprint';
+  sortGenes?: 'frequency' | 'alphabetical' | 'custom' | 'cluster';
+  sortSamples?: 'mutation_load' | 'alphabetical' | 'custom' | 'oncoprint' | 'tmb' | 'cluster';
   customGeneOrder?: string[];
   customSampleOrder?: string[];
+  clustering?: ClusteringOptions; // Used by the 'cluster' sorts
 
   // Interactive features
   tooltips?: boolean;
@@ -135,8 +259,54 @@ export interface OncoprintConfig {
 
   // Layout
   showPercentages?: boolean;
-  showTotals?: boolean;
+  showTotals?: boolean; // Stacked bar of plotted mutations per sample, by variant class
+  showGeneBars?: boolean; // Bars of altered samples per gene on the right, by variant class and copy number
   legend?: boolean;
+
+  // Draw a gene's altered vs unaltered survival curves here when its label is clicked
+  survival?: SurvivalOptions & SurvivalPlotConfig & {
+    container: HTMLElement;
+  };
+
+  // Highlight gene labels enriched in a metadata group
+  clinicalEnrichment?: {
+    field: string;              // Categorical metadata field to test
+    qValueThreshold?: number;   // Default: 0.05
+    color?: string;             // Label colour for enriched genes (default: '#c0392b')
+  };
+}
+
+export interface GeneSelectionConfig {
+  topN?: number;               // Most altered genes shown (default: 25; 0 shows every gene)
+  minAlteredFraction?: number; // Skip genes altered in fewer than this share of their profiled samples
+  include?: string[];          // Always shown, on top of the top N and regardless of the minimum
+  exclude?: string[];          // Never shown
+  showIndicator?: boolean;     // "Showing N of M genes" under the matrix when genes are left out (default: true)
+}
+
+export type ClusterDistance = 'jaccard' | 'hamming' | 'euclidean';
+export type ClusterLinkage = 'average' | 'complete' | 'ward';
+
+export interface ClusteringOptions {
+  distance?: ClusterDistance;              // Default: 'jaccard'
+  linkage?: ClusterLinkage;                // Default: 'average'; 'ward' is Ward's minimum variance (ward.D2)
+  weighted?: boolean;                      // Score cells by alteration type rather than altered or not (default: false)
+  variantWeights?: Record<string, number>; // Per variant class or CNA type, overriding the built-in weights
+  metadataFields?: string[];               // Extra sample features: numbers scaled to 0–1, categories one-hot
+  dendrograms?: boolean;                   // Draw the trees beside the clustered rows and columns (default: true)
+  dendrogramSize?: number;                 // Sample tree height and gene tree width in pixels (default: 40)
+}
+
+// Hierarchical clustering tree; leaves hold one sample or gene
+export interface ClusterNode {
+  height: number;                        // Distance at which the two children were merged; 0 on leaves
+  item?: string;                         // The sample or gene, on leaves
+  children?: [ClusterNode, ClusterNode];
+}
+
+export interface ClusterResult {
+  order: string[];          // Leaves in tree order
+  tree: ClusterNode | null; // null when there is nothing to cluster
 }
 
 export interface ValidationError {
@@ -147,7 +317,7 @@ export interface ValidationError {
 }
 
 export interface ValidationWarning {
-  type: 'unknown_variant' | 'missing_metadata' | 'data_quality';
+  type: 'unknown_variant' | 'missing_metadata' | 'missing_column' | 'data_quality';
   message: string;
   line?: number;
   column?: string;
@@ -157,6 +327,56 @@ export interface ValidationResult {
   isValid: boolean;
   errors: ValidationError[];
   warnings: ValidationWarning[];
+  diagnostics?: ParseDiagnostics; // Rows rejected while parsing, when requested
+  columnMapping?: Record<string, string>; // MAF column → source column, for renamed columns
+}
+
+export interface ParseProgress {
+  bytesRead: number;
+  totalBytes?: number; // Known when parsing a File or a response with Content-Length
+  rowsParsed: number;
+}
+
+export interface MafParseOptions {
+  columns?: string[];         // Columns to keep in addition to the required ones (default: all)
+  signal?: AbortSignal;       // Cancels an in-flight streaming parse
+  onProgress?: (progress: ParseProgress) => void;
+  totalBytes?: number;        // Size of the source, reported back in progress events
+  columnMapping?: Record<string, string>; // Source column → MAF column, e.g. { Gene: 'Hugo_Symbol' }
+  useDefaultAliases?: boolean; // Map common alternative column names (default: true)
+  diagnostics?: boolean;      // Record why rows were rejected, see ParseDiagnostics
+  maxDiagnostics?: number;    // Cap on recorded errors and warnings each (default: 100)
+}
+
+export interface VcfParseOptions {
+  samples?: string[];         // Genotype columns to report (default: `##tumor_sample`, else all)
+  sampleName?: string;        // Barcode for sites-only VCFs without genotype columns
+  passOnly?: boolean;         // Skip records whose FILTER is not PASS or '.' (default: true)
+  annotationField?: 'CSQ' | 'ANN'; // INFO field to read consequences from (default: whichever is declared)
+  canonicalTranscripts?: string[]; // Transcript IDs to treat as canonical, e.g. for SnpEff output
+}
+
+export interface ParseDiagnostics {
+  totalRows: number;              // Data rows read after the header
+  rejectedRows: number;           // Rows left out of the result
+  errors: ValidationError[];      // One entry per rejected row, up to maxDiagnostics
+  warnings: ValidationWarning[];  // Values dropped from rows that were kept, up to maxDiagnostics
+  totalErrors: number;            // Including entries beyond the cap
+  totalWarnings: number;
+}
+
+export interface MafHeader {
+  version?: string;                    // From a `#version` preamble line, e.g. 'gdc-1.0.0'
+  annotations: Record<string, string>; // Other `#key value` preamble lines
+  comments: string[];                  // Raw preamble lines without the leading '#'
+  columns: string[];                   // Column names from the header row
+  columnMapping: Record<string, string>; // MAF column → source column it was read from
+}
+
+export interface MafParseResult {
+  data: MafData[];
+  header: MafHeader;
+  diagnostics?: ParseDiagnostics; // Present when parsed with `diagnostics: true`
 }
 
 export interface GeneSet {
@@ -165,19 +385,189 @@ export interface GeneSet {
   description?: string;
 }
 
+export interface PathwayConfig {
+  sets?: GeneSet[];         // Default: ONCOGENIC_PATHWAYS, the ten TCGA oncogenic signalling pathways
+  expanded?: string[];      // Pathways drawn with their member genes under the pathway row
+  expandOnClick?: boolean;  // Clicking a pathway row expands or collapses it (default: true)
+}
+
+export interface GeneSetConfig {
+  sets: GeneSet[];                  // Drawn as row blocks, in this order
+  overlap?: 'duplicate' | 'first';  // A gene in several sets gets a row in each (default) or only in the first
+  summaryRows?: boolean;            // Row on top of each block marking samples with any gene in the set altered (default: true)
+  otherGenes?: boolean;             // Selected genes outside every set go in a last 'Other' block (default: false)
+  gap?: number;                     // Space between blocks in pixels (default: 8)
+  summaryColor?: string;            // Default: dark grey
+}
+
+// Pairwise test of alteration status between two genes (Fisher's exact test)
+export interface GeneInteraction {
+  gene1: string;
+  gene2: string;
+  tendency: 'co-occurrence' | 'mutual-exclusivity'; // From the uncorrected cross-product ratio
+  pValue: number;       // One-sided p-value in the direction of `tendency`
+  qValue: number;       // Benjamini–Hochberg adjusted across all tested pairs
+  logOddsRatio: number; // Haldane-corrected (0.5 added to each cell), so always finite
+  counts: {
+    both: number;
+    gene1Only: number;
+    gene2Only: number;
+    neither: number;
+  };
+}
+
+export interface ClinicalEnrichmentOptions {
+  genes?: string[];           // Genes to test (default: every gene in the data)
+  minAlteredSamples?: number; // Skip genes altered in fewer samples than this (default: 5)
+}
+
+// One group against all other annotated samples
+export interface GroupEnrichment {
+  gene: string;
+  group: string;
+  groupAltered: number;
+  groupSize: number;          // Samples in the group profiled for the gene
+  restAltered: number;
+  restSize: number;
+  groupFrequency: number;
+  restFrequency: number;
+  oddsRatio: number;          // > 1 when the gene is enriched in the group
+  pValue: number;             // Two-sided Fisher's exact test
+  qValue: number;             // Benjamini–Hochberg adjusted across all group tests
+}
+
+// Two groups against each other
+export interface PairwiseEnrichment {
+  gene: string;
+  group1: string;
+  group2: string;
+  group1Frequency: number;
+  group2Frequency: number;
+  oddsRatio: number;          // > 1 when the gene is more often altered in group1
+  pValue: number;
+  qValue: number;             // Benjamini–Hochberg adjusted across all pairwise tests
+}
+
+export interface ClinicalEnrichmentResult {
+  field: string;
+  groups: Record<string, number>;                      // Group → annotated sample count
+  frequencies: Record<string, Record<string, number>>; // Gene → group → altered fraction
+  groupwise: GroupEnrichment[];                        // Sorted by p-value
+  pairwise: PairwiseEnrichment[];                      // Sorted by p-value
+}
+
+export interface CohortComparisonOptions {
+  names?: [string, string];   // Default: 'Cohort 1' / 'Cohort 2', or the metadata values when splitting by a field
+  genes?: string[];           // Genes to compare (default: every gene in either cohort)
+  minAlteredSamples?: number; // Skip genes altered in fewer samples than this in both cohorts (default: 5)
+  confidenceLevel?: number;   // Odds ratio confidence interval (default: 0.95)
+}
+
+export interface GeneCohortComparison {
+  gene: string;
+  cohort1Altered: number;
+  cohort1Size: number;      // Samples profiled for the gene
+  cohort2Altered: number;
+  cohort2Size: number;
+  cohort1Frequency: number;
+  cohort2Frequency: number;
+  oddsRatio: number;        // Conditional MLE; > 1 when more often altered in cohort 1
+  ciLower: number;
+  ciUpper: number;
+  pValue: number;           // Two-sided Fisher's exact test
+  qValue: number;           // Benjamini–Hochberg adjusted across the compared genes
+}
+
+export interface CohortComparison {
+  cohort1: { name: string; samples: number };
+  cohort2: { name: string; samples: number };
+  genes: GeneCohortComparison[]; // Sorted by p-value
+}
+
+export interface ForestPlotConfig {
+  width?: number;          // Default: 700
+  rowHeight?: number;      // Default: 22
+  maxGenes?: number;       // Most significant genes shown (default: 25)
+  pValueThreshold?: number; // Only show genes below this p-value (or q-value with useQValues)
+  useQValues?: boolean;
+  colors?: [string, string]; // Cohort 1 / cohort 2 enriched (default: red / blue)
+}
+
+export interface CoOncoprintConfig extends OncoprintConfig {
+  names?: [string, string]; // Panel headers (default: 'Cohort 1' / 'Cohort 2')
+  maxGenes?: number;        // Shared rows when no customGeneOrder is given (default: 25)
+  gap?: number;             // Space between the two panels in pixels (default: 30)
+}
+
+export interface SurvivalOptions {
+  timeField?: string;   // Metadata field with follow-up time (default: 'OS_months')
+  statusField?: string; // Metadata field with event status, e.g. '1:DECEASED' (default: 'OS_status')
+}
+
+export interface SurvivalObservation {
+  sample: string;
+  time: number;
+  event: boolean; // false when censored
+}
+
+// One step of a Kaplan–Meier curve, at a time with at least one event or censoring
+export interface KaplanMeierPoint {
+  time: number;
+  survival: number; // S(t) just after this time
+  atRisk: number;   // Subjects at risk just before this time
+  events: number;
+  censored: number;
+}
+
+export interface KaplanMeierCurve {
+  name: string;
+  samples: number;
+  events: number;
+  medianSurvival?: number; // Undefined when the curve never drops to 0.5
+  points: KaplanMeierPoint[];
+}
+
+export interface LogRankResult {
+  chiSquare: number;
+  degreesOfFreedom: number;
+  pValue: number;
+}
+
+export interface SurvivalComparison {
+  curves: KaplanMeierCurve[];
+  logRank?: LogRankResult; // Undefined with fewer than two non-empty groups
+}
+
+export interface SurvivalPlotConfig {
+  width?: number;         // Default: 500
+  height?: number;        // Height of the plot area, without the at-risk table (default: 320)
+  colors?: string[];      // One per curve, in order
+  timeLabel?: string;     // Default: 'Months'
+  title?: string;
+  showAtRisk?: boolean;   // Numbers at risk under the x axis (default: true)
+  showCensored?: boolean; // Tick marks at censoring times (default: true)
+}
+
+export interface SomaticInteractionsConfig {
+  genes?: string[];                    // Genes to test, top to bottom (default: 25 most altered)
+  cellSize?: number;                   // Default: 20
+  pValueThresholds?: [number, number]; // Marked '*' and '.' respectively (default: [0.05, 0.1])
+  useQValues?: boolean;                // Colour and mark by BH q-value instead of p-value (default: false)
+  maxLog10P?: number;                  // -log10(p) at which the colour scale saturates (default: 3)
+  coOccurrenceColor?: string;
+  exclusivityColor?: string;
+  legend?: boolean;                    // Default: true
+}
+
 export interface MutationStats {
   totalMutations: number;
   mutatedSamples: number;
   mutationRate: number;
-  coOccurrenceMatrix: number[][];
-  mutualExclusivity: Array<{
-    gene1: string;
-    gene2: string;
-    pValue: number;
-  }>;
+  coOccurrenceMatrix: number[][]; // Samples altered in both genes, rows and columns in tested gene order
+  mutualExclusivity: GeneInteraction[];
 }
 
-export type EventType = 'geneClick' | 'sampleClick' | 'cellClick' | 'dataLoaded' | 'error';
+export type EventType = 'geneClick' | 'geneSetClick' | 'sampleClick' | 'cellClick' | 'pairClick' | 'dataLoaded' | 'progress' | 'error';
 
 export interface OncoprintEvent {
   type: EventType;
@@ -0,0 +1,478 @@
+const LENGTH_BASE = [3, 4, 5, 6, 7, 8, 9, 10, 11, 13, 15, 17, 19, 23, 27, 31, 35, 43, 51, 59, 67, 83, 99, 115, 131, 163, 195, 227, 258];
+const LENGTH_EXTRA = [0, 0, 0, 0, 0, 0, 0, 0, 1, 1, 1, 1, 2, 2, 2, 2, 3, 3, 3, 3, 4, 4, 4, 4, 5, 5, 5, 5, 0];
+const DIST_BASE = [1, 2, 3, 4, 5, 7, 9, 13, 17, 25, 33, 49, 65, 97, 129, 193, 257, 385, 513, 769, 1025, 1537, 2049, 3073, 4097, 6145, 8193, 12289, 16385, 24577];
+const DIST_EXTRA = [0, 0, 0, 0, 1, 1, 2, 2, 3, 3, 4, 4, 5, 5, 6, 6, 7, 7, 8, 8, 9, 9, 10, 10, 11, 11, 12, 12, 13, 13];
+const CODE_LENGTH_ORDER = [16, 17, 18, 0, 8, 7, 9, 6, 10, 5, 11, 4, 12, 3, 13, 2, 14, 1, 15];
+
+const WINDOW_SIZE = 32768;
+// Buffer this much compressed input before decoding so blocks rarely have to be retried
+const MIN_BUFFERED_INPUT = 128 * 1024;
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+// Thrown internally when a block or header runs past the buffered input
+const NEED_INPUT = Symbol('need-input');
+
+interface HuffmanTable {
+  table: Uint16Array; // (symbol << 4) | code length, indexed by bit-reversed code
+  bits: number;
+}
+
+function buildHuffmanTable(lengths: Uint8Array): HuffmanTable {
+  let bits = 0;
+  const counts = new Uint16Array(16);
+  lengths.forEach(length => {
+    counts[length]++;
+    bits = Math.max(bits, length);
+  });
+  counts[0] = 0;
+
+  const nextCode = new Uint16Array(16);
+  for (let length = 1, code = 0; length < 16; length++) {
+    code = (code + counts[length - 1]) << 1;
+    nextCode[length] = code;
+  }
+
+  const table = new Uint16Array(1 << bits);
+  lengths.forEach((length, symbol) => {
+    if (length === 0) return;
+    const code = nextCode[length]++;
+    let reversed = 0;
+    for (let i = 0; i < length; i++) {
+      reversed |= ((code >> i) & 1) << (length - 1 - i);
+    }
+    for (let i = reversed; i < table.length; i += 1 << length) {
+      table[i] = (symbol << 4) | length;
+    }
+  });
+
+  return { table, bits };
+}
+
+const FIXED_LITERAL_TABLE = buildHuffmanTable(
+  Uint8Array.from({ length: 288 }, (_, i) => (i < 144 ? 8 : i < 256 ? 9 : i < 280 ? 7 : 8))
+);
+const FIXED_DISTANCE_TABLE = buildHuffmanTable(new Uint8Array(30).fill(5));
+
+/**
+ * Incremental gzip decoder. Handles multi-member files, which includes BGZF
+ * (the blocked gzip used for `.maf.gz`/`.vcf.gz` from GDC and htslib), and
+ * needs no platform support beyond typed arrays.
+ */
+export class GzipDecoder {
+  private input = new Uint8Array(0);
+  private pos = 0;
+  private bitBuf = 0;
+  private bitCnt = 0;
+  private finalInput = false;
+
+  private state: 'header' | 'block' | 'trailer' | 'end' = 'header';
+  private lastBlock = false;
+
+  private output = new Uint8Array(4 * WINDOW_SIZE);
+  private outputLength = 0;
+  private historyLength = 0;
+  private crc = 0xffffffff;
+  private memberSize = 0;
+
+  static isGzip(bytes: Uint8Array): boolean {
+    return bytes.length >= 2 && bytes[0] === 0x1f && bytes[1] === 0x8b;
+  }
+
+  static decompress(bytes: Uint8Array): Uint8Array {
+    const decoder = new GzipDecoder();
+    const chunks = [...decoder.push(bytes), ...decoder.finish()];
+    const result = new Uint8Array(chunks.reduce((sum, chunk) => sum + chunk.length, 0));
+    let offset = 0;
+    chunks.forEach(chunk => {
+      result.set(chunk, offset);
+      offset += chunk.length;
+    });
+    return result;
+  }
+
+  /**
+   * Decodes bytes to text, inflating them first when they carry the gzip magic.
+   */
+  static decodeText(bytes: Uint8Array): string {
+    const plain = this.isGzip(bytes) ? this.decompress(bytes) : bytes;
+    return new TextDecoder('utf-8').decode(plain);
+  }
+
+  /**
+   * Passes chunks through untouched unless the first bytes are gzip magic,
+   * in which case the chunks are inflated as they arrive.
+   */
+  static async *decompressChunks(chunks: AsyncIterable<Uint8Array>): AsyncGenerator<Uint8Array, void, undefined> {
+    let decoder: GzipDecoder | null = null;
+    let sniffed = false;
+    let head = new Uint8Array(0);
+
+    for await (const chunk of chunks) {
+      if (!sniffed) {
+        head = concatBytes(head, chunk);
+        if (head.length < 2) continue;
+        sniffed = true;
+        if (this.isGzip(head)) {
+          decoder = new GzipDecoder();
+          yield* decoder.push(head);
+        } else {
+          yield head;
+        }
+        continue;
+      }
+
+      if (decoder) {
+        yield* decoder.push(chunk);
+      } else {
+        yield chunk;
+      }
+    }
+
+    if (decoder) {
+      yield* decoder.finish();
+    } else if (!sniffed && head.length > 0) {
+      yield head;
+    }
+  }
+
+  push(chunk: Uint8Array): Uint8Array[] {
+    this.input = concatBytes(this.input.subarray(this.pos), chunk);
+    this.pos = 0;
+    if (this.input.length < MIN_BUFFERED_INPUT) {
+      return [];
+    }
+    return this.decode();
+  }
+
+  finish(): Uint8Array[] {
+    this.finalInput = true;
+    const chunks = this.decode();
+    if (this.state !== 'end') {
+      throw new Error('Unexpected end of gzip data');
+    }
+    return chunks;
+  }
+
+  private decode(): Uint8Array[] {
+    const chunks: Uint8Array[] = [];
+
+    for (;;) {
+      const saved = { pos: this.pos, bitBuf: this.bitBuf, bitCnt: this.bitCnt, outputLength: this.outputLength };
+      try {
+        if (this.state === 'end') {
+          if (this.pos >= this.input.length) break;
+          // Another member follows (BGZF, or files concatenated with `cat`)
+          this.state = 'header';
+        }
+
+        if (this.state === 'header') {
+          this.readHeader();
+          this.state = 'block';
+          this.lastBlock = false;
+          this.crc = 0xffffffff;
+          this.memberSize = 0;
+          this.outputLength = 0;
+          this.historyLength = 0;
+        } else if (this.state === 'block') {
+          this.lastBlock = this.readBlock();
+          this.releaseBufferedBytes();
+          const chunk = this.output.slice(this.historyLength, this.outputLength);
+          this.updateChecksum(chunk);
+          if (chunk.length > 0) {
+            chunks.push(chunk);
+          }
+          this.retainHistory();
+          if (this.lastBlock) {
+            this.alignToByte();
+            this.state = 'trailer';
+          }
+        } else {
+          this.readTrailer();
+          this.state = 'end';
+        }
+      } catch (error) {
+        if (error !== NEED_INPUT) throw error;
+        this.pos = saved.pos;
+        this.bitBuf = saved.bitBuf;
+        this.bitCnt = saved.bitCnt;
+        this.outputLength = saved.outputLength;
+        break;
+      }
+    }
+
+    return chunks;
+  }
+
+  private readHeader(): void {
+    if (this.readByte() !== 0x1f || this.readByte() !== 0x8b) {
+      throw new Error('Invalid gzip header');
+    }
+    if (this.readByte() !== 8) {
+      throw new Error('Unsupported gzip compression method');
+    }
+    const flags = this.readByte();
+    this.skipBytes(6); // MTIME, XFL, OS
+
+    if (flags & 0x04) {
+      const extraLength = this.readByte() | (this.readByte() << 8);
+      this.skipBytes(extraLength);
+    }
+    if (flags & 0x08) {
+      while (this.readByte() !== 0);
+    }
+    if (flags & 0x10) {
+      while (this.readByte() !== 0);
+    }
+    if (flags & 0x02) {
+      this.skipBytes(2);
+    }
+  }
+
+  private readTrailer(): void {
+    const crc = (this.readByte() | (this.readByte() << 8) | (this.readByte() << 16) | (this.readByte() << 24)) >>> 0;
+    const size = (this.readByte() | (this.readByte() << 8) | (this.readByte() << 16) | (this.readByte() << 24)) >>> 0;
+
+    if (crc !== (this.crc ^ 0xffffffff) >>> 0) {
+      throw new Error('Gzip CRC check failed');
+    }
+    if (size !== this.memberSize % 0x100000000) {
+      throw new Error('Gzip length check failed');
+    }
+  }
+
+  private readBlock(): boolean {
+    const isLast = this.getBits(1) === 1;
+    const type = this.getBits(2);
+
+    switch (type) {
+      case 0:
+        this.readStoredBlock();
+        break;
+      case 1:
+        this.inflateBlock(FIXED_LITERAL_TABLE, FIXED_DISTANCE_TABLE);
+        break;
+      case 2: {
+        const [literals, distances] = this.readDynamicTables();
+        this.inflateBlock(literals, distances);
+        break;
+      }
+      default:
+        throw new Error('Invalid deflate block type');
+    }
+
+    return isLast;
+  }
+
+  private readStoredBlock(): void {
+    this.alignToByte();
+    const length = this.readByte() | (this.readByte() << 8);
+    const inverse = this.readByte() | (this.readByte() << 8);
+    if ((length ^ 0xffff) !== inverse) {
+      throw new Error('Invalid stored block length');
+    }
+    if (this.pos + length > this.input.length) {
+      if (this.finalInput) throw new Error('Unexpected end of gzip data');
+      throw NEED_INPUT;
+    }
+    this.ensureOutput(length);
+    this.output.set(this.input.subarray(this.pos, this.pos + length), this.outputLength);
+    this.outputLength += length;
+    this.pos += length;
+  }
+
+  private readDynamicTables(): [HuffmanTable, HuffmanTable] {
+    const literalCount = this.getBits(5) + 257;
+    const distanceCount = this.getBits(5) + 1;
+    const codeLengthCount = this.getBits(4) + 4;
+
+    const codeLengths = new Uint8Array(19);
+    for (let i = 0; i < codeLengthCount; i++) {
+      codeLengths[CODE_LENGTH_ORDER[i]] = this.getBits(3);
+    }
+    const codeLengthTable = buildHuffmanTable(codeLengths);
+
+    const lengths = new Uint8Array(literalCount + distanceCount);
+    for (let i = 0; i < lengths.length;) {
+      const symbol = this.decodeSymbol(codeLengthTable);
+      if (symbol < 16) {
+        lengths[i++] = symbol;
+        continue;
+      }
+
+      let repeat: number;
+      let value = 0;
+      if (symbol === 16) {
+        if (i === 0) throw new Error('Invalid deflate code lengths');
+        value = lengths[i - 1];
+        repeat = 3 + this.getBits(2);
+      } else if (symbol === 17) {
+        repeat = 3 + this.getBits(3);
+      } else {
+        repeat = 11 + this.getBits(7);
+      }
+      if (i + repeat > lengths.length) {
+        throw new Error('Invalid deflate code lengths');
+      }
+      lengths.fill(value, i, i + repeat);
+      i += repeat;
+    }
+
+    return [
+      buildHuffmanTable(lengths.subarray(0, literalCount)),
+      buildHuffmanTable(lengths.subarray(literalCount))
+    ];
+  }
+
+  private inflateBlock(literals: HuffmanTable, distances: HuffmanTable): void {
+    for (;;) {
+      const symbol = this.decodeSymbol(literals);
+      if (symbol < 256) {
+        this.ensureOutput(1);
+        this.output[this.outputLength++] = symbol;
+        continue;
+      }
+      if (symbol === 256) {
+        return;
+      }
+
+      const lengthIndex = symbol - 257;
+      if (lengthIndex >= LENGTH_BASE.length) {
+        throw new Error('Invalid deflate length code');
+      }
+      const length = LENGTH_BASE[lengthIndex] + this.getBits(LENGTH_EXTRA[lengthIndex]);
+
+      const distanceIndex = this.decodeSymbol(distances);
+      if (distanceIndex >= DIST_BASE.length) {
+        throw new Error('Invalid deflate distance code');
+      }
+      const distance = DIST_BASE[distanceIndex] + this.getBits(DIST_EXTRA[distanceIndex]);
+      if (distance > this.outputLength) {
+        throw new Error('Invalid deflate distance');
+      }
+
+      this.ensureOutput(length);
+      // Byte-by-byte copy: the source may overlap the bytes being written
+      for (let i = 0, from = this.outputLength - distance; i < length; i++) {
+        this.output[this.outputLength++] = this.output[from + i];
+      }
+    }
+  }
+
+  private decodeSymbol(huffman: HuffmanTable): number {
+    if (huffman.bits === 0) {
+      throw new Error('Invalid Huffman code');
+    }
+    while (this.bitCnt < huffman.bits) {
+      if (this.pos < this.input.length) {
+        this.bitBuf |= this.input[this.pos++] << this.bitCnt;
+        this.bitCnt += 8;
+      } else if (this.finalInput) {
+        break; // Codes near the end may be shorter than the table width
+      } else {
+        throw NEED_INPUT;
+      }
+    }
+
+    const entry = huffman.table[this.bitBuf & ((1 << huffman.bits) - 1)];
+    const length = entry & 15;
+    if (length === 0) {
+      throw new Error('Invalid Huffman code');
+    }
+    if (length > this.bitCnt) {
+      throw new Error('Unexpected end of gzip data');
+    }
+    this.bitBuf >>>= length;
+    this.bitCnt -= length;
+    return entry >> 4;
+  }
+
+  private getBits(count: number): number {
+    while (this.bitCnt < count) {
+      this.bitBuf |= this.nextByte() << this.bitCnt;
+      this.bitCnt += 8;
+    }
+    const value = this.bitBuf & ((1 << count) - 1);
+    this.bitBuf >>>= count;
+    this.bitCnt -= count;
+    return value;
+  }
+
+  private alignToByte(): void {
+    // Drop the partial byte, then hand whole buffered bytes back to the input
+    this.bitBuf = 0;
+    this.pos -= this.bitCnt >> 3;
+    this.bitCnt = 0;
+  }
+
+  private releaseBufferedBytes(): void {
+    // Keep only the partial byte in the bit buffer so input compaction never drops buffered bytes
+    this.pos -= this.bitCnt >> 3;
+    this.bitBuf &= (1 << (this.bitCnt & 7)) - 1;
+    this.bitCnt &= 7;
+  }
+
+  private readByte(): number {
+    if (this.bitCnt > 0) {
+      this.alignToByte();
+    }
+    return this.nextByte();
+  }
+
+  private nextByte(): number {
+    if (this.pos >= this.input.length) {
+      if (this.finalInput) throw new Error('Unexpected end of gzip data');
+      throw NEED_INPUT;
+    }
+    return this.input[this.pos++];
+  }
+
+  private skipBytes(count: number): void {
+    for (let i = 0; i < count; i++) {
+      this.readByte();
+    }
+  }
+
+  private ensureOutput(extra: number): void {
+    if (this.outputLength + extra <= this.output.length) return;
+    let size = this.output.length * 2;
+    while (size < this.outputLength + extra) size *= 2;
+    const grown = new Uint8Array(size);
+    grown.set(this.output.subarray(0, this.outputLength));
+    this.output = grown;
+  }
+
+  private retainHistory(): void {
+    const keep = Math.min(WINDOW_SIZE, this.outputLength);
+    this.output.copyWithin(0, this.outputLength - keep, this.outputLength);
+    this.outputLength = keep;
+    this.historyLength = keep;
+  }
+
+  private updateChecksum(chunk: Uint8Array): void {
+    let crc = this.crc;
+    for (let i = 0; i < chunk.length; i++) {
+      crc = CRC_TABLE[(crc ^ chunk[i]) & 0xff] ^ (crc >>> 8);
+    }
+    this.crc = crc;
+    this.memberSize += chunk.length;
+  }
+}
+
+function concatBytes(a: Uint8Array, b: Uint8Array): Uint8Array {
+  if (a.length === 0) return b;
+  const result = new Uint8Array(a.length + b.length);
+  result.set(a, 0);
+  result.set(b, a.length);
+  return result;
+}
@@ -0,0 +1,206 @@
+// Relative tolerance when collecting tables as or more extreme than the observed one
+const FISHER_TOLERANCE = 1e-7;
+
+// Convergence settings for the incomplete gamma function behind chi-square p-values
+const GAMMA_MAX_ITERATIONS = 200;
+const GAMMA_EPSILON = 3e-12;
+
+// Search range (natural log) and bisection steps for conditional odds ratios
+const ODDS_RATIO_LOG_BOUND = 50;
+const ODDS_RATIO_ITERATIONS = 100;
+
+export interface FisherExactResult {
+  pGreater: number;   // One-sided: association stronger than observed (co-occurrence)
+  pLess: number;      // One-sided: association weaker than observed (exclusivity)
+  pTwoSided: number;
+  oddsRatio: number;  // Sample odds ratio ad/bc; 0, Infinity or NaN when a cell is empty
+}
+
+/**
+ * Small statistics helpers shared by the analysis methods, kept free of any
+ * dependency so they run in the browser as-is.
+ */
+export class Statistics {
+  /**
+   * Fisher's exact test on the 2×2 table [[a, b], [c, d]], from the
+   * hypergeometric distribution of `a` given the table margins.
+   */
+  static fisherExact(a: number, b: number, c: number, d: number): FisherExactResult {
+    const row1 = a + b;
+    const col1 = a + c;
+    const total = a + b + c + d;
+    const logFactorials = this.logFactorials(total);
+    const logChoose = (n: number, k: number) => logFactorials[n] - logFactorials[k] - logFactorials[n - k];
+    const logDenominator = logChoose(total, col1);
+    const probability = (k: number) => Math.exp(logChoose(row1, k) + logChoose(total - row1, col1 - k) - logDenominator);
+
+    const min = Math.max(0, col1 - (total - row1));
+    const max = Math.min(row1, col1);
+    const observed = probability(a);
+
+    let pGreater = 0;
+    let pLess = 0;
+    let pTwoSided = 0;
+    for (let k = min; k <= max; k++) {
+      const p = probability(k);
+      if (k >= a) pGreater += p;
+      if (k <= a) pLess += p;
+      if (p <= observed * (1 + FISHER_TOLERANCE)) pTwoSided += p;
+    }
+
+    return {
+      pGreater: Math.min(1, pGreater),
+      pLess: Math.min(1, pLess),
+      pTwoSided: Math.min(1, pTwoSided),
+      oddsRatio: (a * d) / (b * c)
+    };
+  }
+
+  /**
+   * Conditional maximum-likelihood odds ratio and exact confidence interval
+   * for a 2×2 table, as reported by R's `fisher.test`.
+   */
+  static fisherOddsRatio(
+    a: number,
+    b: number,
+    c: number,
+    d: number,
+    confidenceLevel: number = 0.95
+  ): { estimate: number; lower: number; upper: number } {
+    const row1 = a + b;
+    const row2 = c + d;
+    const col1 = a + c;
+    const logFactorials = this.logFactorials(row1 + row2);
+    const logChoose = (n: number, k: number) => logFactorials[n] - logFactorials[k] - logFactorials[n - k];
+
+    const min = Math.max(0, col1 - row2);
+    const max = Math.min(row1, col1);
+    const support: number[] = [];
+    for (let k = min; k <= max; k++) support.push(k);
+    const logDensity = support.map(k => logChoose(row1, k) + logChoose(row2, col1 - k));
+
+    // Noncentral hypergeometric probabilities for odds ratio exp(logPsi)
+    const density = (logPsi: number) => {
+      const logs = logDensity.map((value, i) => value + support[i] * logPsi);
+      const peak = Math.max(...logs);
+      const weights = logs.map(value => Math.exp(value - peak));
+      const total = weights.reduce((sum, weight) => sum + weight, 0);
+      return weights.map(weight => weight / total);
+    };
+    const mean = (logPsi: number) => density(logPsi).reduce((sum, p, i) => sum + p * support[i], 0);
+    const upperTail = (logPsi: number) => density(logPsi).reduce((sum, p, i) => sum + (support[i] >= a ? p : 0), 0);
+    const lowerTail = (logPsi: number) => density(logPsi).reduce((sum, p, i) => sum + (support[i] <= a ? p : 0), 0);
+
+    // Each function is monotone in logPsi, so bisect on the log scale
+    const solve = (f: (logPsi: number) => number, target: number, increasing: boolean) => {
+      let low = -ODDS_RATIO_LOG_BOUND;
+      let high = ODDS_RATIO_LOG_BOUND;
+      for (let i = 0; i < ODDS_RATIO_ITERATIONS; i++) {
+        const middle = (low + high) / 2;
+        if ((f(middle) < target) === increasing) low = middle;
+        else high = middle;
+      }
+      return Math.exp((low + high) / 2);
+    };
+
+    const alpha = (1 - confidenceLevel) / 2;
+    return {
+      estimate: a === min ? 0 : a === max ? Infinity : solve(mean, a, true),
+      lower: a === min ? 0 : solve(upperTail, alpha, true),
+      upper: a === max ? Infinity : solve(lowerTail, alpha, false)
+    };
+  }
+
+  /**
+   * Benjamini–Hochberg adjusted p-values (q-values), returned in input order.
+   */
+  static adjustBenjaminiHochberg(pValues: number[]): number[] {
+    const n = pValues.length;
+    const order = pValues.map((p, index) => ({ p, index })).sort((x, y) => y.p - x.p);
+    const adjusted = new Array<number>(n);
+
+    // Walk from the largest p-value down, keeping the running minimum so q-values stay monotone
+    let runningMin = 1;
+    order.forEach(({ p, index }, i) => {
+      const rank = n - i;
+      runningMin = Math.min(runningMin, (p * n) / rank);
+      adjusted[index] = runningMin;
+    });
+
+    return adjusted;
+  }
+
+  /**
+   * Upper-tail p-value of a chi-square statistic, i.e. the regularized upper
+   * incomplete gamma function Q(df/2, x/2).
+   */
+  static chiSquarePValue(statistic: number, degreesOfFreedom: number): number {
+    if (!(statistic > 0)) return 1;
+
+    const a = degreesOfFreedom / 2;
+    const x = statistic / 2;
+    const logPrefix = a * Math.log(x) - x - this.logGamma(a);
+
+    if (x < a + 1) {
+      // Series for the lower tail P(a, x)
+      let term = 1 / a;
+      let sum = term;
+      for (let n = 1; n < GAMMA_MAX_ITERATIONS; n++) {
+        term *= x / (a + n);
+        sum += term;
+        if (Math.abs(term) < Math.abs(sum) * GAMMA_EPSILON) break;
+      }
+      return Math.max(0, 1 - sum * Math.exp(logPrefix));
+    }
+
+    // Lentz's continued fraction for the upper tail Q(a, x)
+    let b = x + 1 - a;
+    let c = 1 / Number.MIN_VALUE;
+    let d = 1 / b;
+    let h = d;
+    for (let n = 1; n < GAMMA_MAX_ITERATIONS; n++) {
+      const an = -n * (n - a);
+      b += 2;
+      d = an * d + b;
+      if (Math.abs(d) < Number.MIN_VALUE) d = Number.MIN_VALUE;
+      c = b + an / c;
+      if (Math.abs(c) < Number.MIN_VALUE) c = Number.MIN_VALUE;
+      d = 1 / d;
+      const delta = d * c;
+      h *= delta;
+      if (Math.abs(delta - 1) < GAMMA_EPSILON) break;
+    }
+    return Math.min(1, Math.exp(logPrefix) * h);
+  }
+
+  // Lanczos approximation of log Γ(x) for x > 0
+  static logGamma(x: number): number {
+    const coefficients = [
+      76.18009172947146, -86.50532032941678, 24.01409824083091,
+      -1.231739572450155, 0.001208650973866179, -0.000005395239384953
+    ];
+    let y = x;
+    const tmp = x + 5.5 - (x + 0.5) * Math.log(x + 5.5);
+    let series = 1.000000000190015;
+    coefficients.forEach(coefficient => {
+      series += coefficient / ++y;
+    });
+    return -tmp + Math.log((2.5066282746310007 * series) / x);
+  }
+
+  // log(k!) for k = 0..n at least, grown on demand since pairwise tests reuse the same totals
+  private static logFactorialCache = new Float64Array(1);
+
+  private static logFactorials(n: number): Float64Array {
+    const cached = this.logFactorialCache;
+    if (cached.length > n) return cached;
+
+    const values = new Float64Array(n + 1);
+    values.set(cached);
+    for (let k = Math.max(2, cached.length); k <= n; k++) {
+      values[k] = values[k - 1] + Math.log(k);
+    }
+    this.logFactorialCache = values;
+    return values;
+  }
+}
@@ -0,0 +1,37 @@
+import { gzipSync } from 'zlib';
+import { GzipDecoder } from '../GzipDecoder';
+
+describe('GzipDecoder', () => {
+  const text = Array.from({ length: 5000 }, (_, i) => `GENE${i % 97}\tSample_${i % 13}\tMissense_Mutation\n`).join('');
+
+  it('should detect gzip magic bytes', () => {
+    expect(GzipDecoder.isGzip(new Uint8Array(gzipSync('x')))).toBe(true);
+    expect(GzipDecoder.isGzip(new TextEncoder().encode('Hugo_Symbol'))).toBe(false);
+  });
+
+  it('should inflate every member of a multi-member (BGZF-style) file', () => {
+    const members = [text.slice(0, 60000), text.slice(60000), ''].map(part =>
+      gzipSync(part, { level: 6 })
+    );
+    const bytes = new Uint8Array(Buffer.concat(members));
+
+    expect(GzipDecoder.decodeText(bytes)).toBe(text);
+  });
+
+  it('should produce the same output when fed in small chunks', () => {
+    const bytes = new Uint8Array(gzipSync(text, { level: 9 }));
+    const decoder = new GzipDecoder();
+    const chunks: Uint8Array[] = [];
+    for (let i = 0; i < bytes.length; i += 333) {
+      chunks.push(...decoder.push(bytes.subarray(i, i + 333)));
+    }
+    chunks.push(...decoder.finish());
+
+    expect(Buffer.concat(chunks).toString('utf-8')).toBe(text);
+  });
+
+  it('should reject truncated input', () => {
+    const bytes = new Uint8Array(gzipSync(text));
+    expect(() => GzipDecoder.decompress(bytes.subarray(0, bytes.length - 10))).toThrow();
+  });
+});
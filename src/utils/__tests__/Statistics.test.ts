@@ -0,0 +1,26 @@
+import { Statistics } from '../Statistics';
+
+describe('Statistics', () => {
+  it('should match R fisher.test on a 2x2 table', () => {
+    const result = Statistics.fisherExact(3, 1, 1, 3);
+    expect(result.pGreater).toBeCloseTo(17 / 70, 10);
+    expect(result.pLess).toBeCloseTo(69 / 70, 10);
+    expect(result.pTwoSided).toBeCloseTo(34 / 70, 10);
+    expect(result.oddsRatio).toBe(9);
+  });
+
+  it('should estimate the conditional maximum likelihood odds ratio with exact confidence limits', () => {
+    const result = Statistics.fisherOddsRatio(3, 1, 1, 3);
+    expect(result.estimate).toBeCloseTo(6.4083, 3);
+    expect(result.lower).toBeCloseTo(0.21174, 4);
+    expect(result.upper).toBeCloseTo(626.24, 1);
+    expect(Statistics.fisherOddsRatio(5, 0, 0, 5).estimate).toBe(Infinity);
+  });
+
+  it('should adjust p-values with Benjamini-Hochberg in input order', () => {
+    const adjusted = Statistics.adjustBenjaminiHochberg([0.01, 0.04, 0.03, 0.5]);
+    [0.04, 0.16 / 3, 0.16 / 3, 0.5].forEach((q, index) => {
+      expect(adjusted[index]).toBeCloseTo(q, 10);
+    });
+  });
+});
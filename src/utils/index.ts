@@ -1 +1,3 @@
-export { EventEmitter, type EventCallback } from './EventEmitter';
\ No newline at end of file
+export { EventEmitter, type EventCallback } from './EventEmitter';
+export { GzipDecoder } from './GzipDecoder';
+export { Statistics, type FisherExactResult } from './Statistics';
\ No newline at end of file